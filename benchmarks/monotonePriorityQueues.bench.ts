@@ -0,0 +1,69 @@
+import Benchmark from 'benchmark';
+import { BucketPriorityQueue, IPriorityQueue, PriorityQueue, RadixHeapPriorityQueue } from '../src/index';
+
+/**
+ * Monotone workload of Dijkstra's algorithm: each dequeue is followed by some enqueues
+ * with priority greater than dequeued one by small integer weight.
+ */
+interface IWorkload {
+    enqueues: Array<number>;
+    weights: Array<number>;
+}
+
+/**
+ * Builds deterministic workload, so all queues run the same sequence of operations.
+ * 
+ * @param steps - number of dequeues
+ * @param maxWeight - maximal weight of edge
+ * @returns workload
+ */
+function createWorkload(steps: number, maxWeight: number): IWorkload {
+    let seed: number = 42;
+    let random = (n: number) => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed % n;
+    };
+    let workload: IWorkload = { enqueues: [], weights: [] };
+    for(let i = 0; i < steps; i++) {
+        let count: number = 1 + random(4);
+        workload.enqueues.push(count);
+        for(let j = 0; j < count; j++)
+            workload.weights.push(1 + random(maxWeight));
+    }
+    return workload;
+}
+
+/**
+ * Runs workload on queue.
+ * 
+ * @param queue - empty queue
+ * @param workload - workload
+ * @returns sum of dequeued priorities to keep result alive
+ */
+function run(queue: IPriorityQueue<number>, workload: IWorkload): number {
+    let sum: number = 0;
+    let w: number = 0;
+    queue.enqueue(0, 0);
+    for(let i = 0; i < workload.enqueues.length && queue.count > 0; i++) {
+        let priority: number = queue.dequeue();
+        sum += priority;
+        for(let j = 0; j < workload.enqueues[i]; j++, w++)
+            queue.enqueue(priority + workload.weights[w], priority + workload.weights[w]);
+    }
+    return sum;
+}
+
+for(let maxWeight of [10, 1000]) {
+    let workload: IWorkload = createWorkload(100000, maxWeight);
+    let sink: number = 0;
+    console.log(`monotone workload, weights 1..${maxWeight}`);
+    new Benchmark.Suite()
+        .add('PriorityQueue', () => { sink += run(new PriorityQueue<number>(), workload); })
+        .add('RadixHeapPriorityQueue', () => { sink += run(new RadixHeapPriorityQueue<number>(), workload); })
+        .add('BucketPriorityQueue', () => { sink += run(new BucketPriorityQueue<number>([], maxWeight), workload); })
+        .on('cycle', (event: Benchmark.Event) => console.log(`  ${String(event.target)}`))
+        .on('complete', function(this: Benchmark.Suite) {
+            console.log(`  Fastest is ${this.filter('fastest').map('name')} (checksum ${sink})`);
+        })
+        .run();
+}
@@ -4,26 +4,53 @@ import sourceMaps from 'rollup-plugin-sourcemaps';
 
 const pkg = require('./package.json');
 const camelCase = require('lodash.camelcase');
+const path = require('path');
 
 const libraryName = 'PriorityQueue';
+const mainInput = 'index';
 
-export default {
-  input: `compiled/PriorityQueue.js`,
-  output: [
-    { file: pkg.main, name: camelCase(libraryName), format: 'umd', exports: 'named' },
-    { file: pkg.module, name: camelCase(libraryName), format: 'es', exports: 'named' },
-  ],
-  // Indicate here external modules you don't wanna include in your bundle (i.e.: 'lodash')
-  external: [],
-  plugins: [
-    // Allow bundling cjs modules (unlike webpack, rollup doesn't understand cjs)
-    commonjs(),
-    // Allow node_modules resolution, so you can use 'external' to control
-    // which external modules to include in the bundle
-    // https://github.com/rollup/rollup-plugin-node-resolve#usage
-    resolve(),
+// Node.js-only queue is separate entry point, so main bundle stays free of built-ins
+const externalName = 'ExternalPriorityQueue';
+const mainEntry = path.resolve(__dirname, `compiled/${mainInput}`);
 
-    // Resolve source maps to the original source
-    sourceMaps(),
-  ],
-};
\ No newline at end of file
+const plugins = () => [
+  // Allow bundling cjs modules (unlike webpack, rollup doesn't understand cjs)
+  commonjs(),
+  // Allow node_modules resolution, so you can use 'external' to control
+  // which external modules to include in the bundle
+  // https://github.com/rollup/rollup-plugin-node-resolve#usage
+  resolve(),
+
+  // Resolve source maps to the original source
+  sourceMaps(),
+];
+
+export default [
+  {
+    input: `compiled/${mainInput}.js`,
+    output: [
+      { file: pkg.main, name: camelCase(libraryName), format: 'umd', exports: 'named' },
+      { file: pkg.module, name: camelCase(libraryName), format: 'es', exports: 'named' },
+    ],
+    // Indicate here external modules you don't wanna include in your bundle (i.e.: 'lodash')
+    external: [],
+    plugins: plugins(),
+  },
+  {
+    input: `compiled/${externalName}.js`,
+    output: [
+      {
+        file: `dist/${externalName}.umd.js`, name: camelCase(externalName), format: 'umd', exports: 'named',
+        globals: { [mainEntry]: camelCase(libraryName), fs: 'fs', os: 'os', path: 'path' },
+        paths: { [mainEntry]: `./${libraryName}.umd.js` },
+      },
+      {
+        file: `dist/${externalName}.es5.js`, format: 'es', exports: 'named',
+        paths: { [mainEntry]: `./${libraryName}.es5.js` },
+      },
+    ],
+    // classes of main bundle are shared, not copied
+    external: [`${mainEntry}.js`, 'fs', 'os', 'path'],
+    plugins: plugins(),
+  },
+];
\ No newline at end of file
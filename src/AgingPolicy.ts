@@ -0,0 +1,30 @@
+/**
+ * Aging policy: computes effective priority of entry from its base priority and age (time or number of
+ * operations since it was enqueued). Effective priority must not grow with age.
+ * 
+ * @remarks Age may be negative for entries enqueued after the last re-key of queue, policy should
+ * extrapolate then, like built-in {@link linearAging} and {@link stepAging} do.
+ */
+export type AgingPolicy = (priority: number, age: number) => number;
+
+/**
+ * Builds policy that improves priority by `rate` per unit of age. Relative order of entries with linear
+ * aging doesn't change between re-keys, so queue stays exact.
+ * 
+ * @param rate - decrease of priority per unit of age
+ * @returns linear aging policy
+ */
+export function linearAging(rate: number): AgingPolicy {
+    return (priority: number, age: number) => priority - rate * age;
+}
+
+/**
+ * Builds policy that improves priority by `step` after each full `interval` of age.
+ * 
+ * @param interval - age between steps
+ * @param step - decrease of priority per step
+ * @returns step aging policy
+ */
+export function stepAging(interval: number, step: number): AgingPolicy {
+    return (priority: number, age: number) => priority - step * Math.floor(age / interval);
+}
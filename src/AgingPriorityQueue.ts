@@ -0,0 +1,255 @@
+import { AgingPolicy, linearAging } from "./AgingPolicy";
+import { IAgingPriorityQueueOptions } from "./IAgingPriorityQueueOptions";
+import { IElementPriorityPair } from "./IElementPriorityPair";
+import { InvalidOperationException } from "./InvalidOperationException";
+import { IPriorityQueue } from "./IPriorityQueue";
+import { PriorityQueue } from "./PriorityQueue";
+
+/**
+ * Entry of aging queue with its base priority and time of enqueue.
+ */
+interface IAgingEntry<T> {
+    element: T;
+    priority: number;
+
+    /**
+     * Age clock at the moment of enqueue.
+     */
+    enqueuedAt: number;
+
+    /**
+     * Sequence number of enqueue, keeps FIFO order of ties on re-key.
+     */
+    sequence: number;
+}
+
+/**
+ * Priority queue with aging built on {@link PriorityQueue}: effective priority of entry improves with
+ * time or number of operations since it was enqueued, so low-priority entries don't starve under
+ * sustained load of high-priority ones.
+ *
+ * @typeParam T - Specifies the type of elements in the queue.
+ *
+ * @remarks Underlying heap is keyed by effective priorities at the moment of the last re-key, entries
+ * enqueued later are keyed by policy extrapolated to that moment. Re-key recomputes all keys and rebuilds
+ * the heap, it happens lazily on {@link peek} and {@link dequeue} when `rekeyInterval` of age or as many
+ * operations as there are entries passed. With {@link linearAging} order is exact at any moment, with other
+ * policies it may be stale between re-keys. Entries with equal effective priorities are dequeued in FIFO order.
+ */
+export class AgingPriorityQueue<T> implements IPriorityQueue<T, number> {
+
+    /**
+     * Underlying queue keyed by effective priorities at {@link _rekeyed_at}.
+     */
+    private readonly _queue: PriorityQueue<IAgingEntry<T>>;
+
+    /**
+     * Aging policy.
+     */
+    private readonly _policy: AgingPolicy;
+
+    /**
+     * Whether age is measured in operations rather than clock time.
+     */
+    private readonly _by_operations: boolean;
+
+    /**
+     * Source of current time.
+     */
+    private readonly _clock: () => number;
+
+    /**
+     * Maximum age between re-keys.
+     */
+    private readonly _rekey_interval: number;
+
+    /**
+     * Number of enqueue and dequeue operations.
+     */
+    private _operations: number = 0;
+
+    /**
+     * Counter of enqueues for sequence numbers.
+     */
+    private _sequence: number = 0;
+
+    /**
+     * Age clock at the moment of the last re-key.
+     */
+    private _rekeyed_at: number;
+
+    /**
+     * Number of operations since the last re-key.
+     */
+    private _operations_since_rekey: number = 0;
+
+    /**
+     * Gets the number of elements contained in the queue
+     */
+    public get count(): number {
+        return this._queue.count;
+    }
+
+    /**
+     * Gets a collection that enumerates the elements of the queue in an unordered manner.
+     */
+    public get unorderedItems(): Array<T> {
+        return this._queue.unorderedItems.map(entry => entry.element);
+    }
+
+    /**
+     * Construcor of aging priority queue.
+     *
+     * @param k - number of child nodes (recommended 4 or 8)
+     * @param options - aging policy, measure of age and clock
+     */
+    constructor(k: number = 4, options: IAgingPriorityQueueOptions = {}) {
+        this._queue = new PriorityQueue<IAgingEntry<T>>([], k, { stable: true, initialCapacity: options.initialCapacity });
+        this._policy = options.policy ?? linearAging(1);
+        this._by_operations = options.ageBy === 'operations';
+        this._clock = options.clock ?? Date.now;
+        this._rekey_interval = options.rekeyInterval ?? Infinity;
+        this._rekeyed_at = this._now();
+    }
+
+    /**
+     * Returns current value of age clock.
+     */
+    private _now(): number {
+        return this._by_operations ? this._operations : this._clock();
+    }
+
+    /**
+     * Re-keys the queue if it's due.
+     *
+     * @param now - current value of age clock
+     */
+    private _rekeyIfDue(now: number) {
+        if(this._operations_since_rekey >= Math.max(this._queue.count, 1) || now - this._rekeyed_at >= this._rekey_interval)
+            this._rekey(now);
+    }
+
+    /**
+     * Recomputes effective priorities of all entries and rebuilds the heap.
+     *
+     * @param now - current value of age clock
+     */
+    private _rekey(now: number) {
+        let entries: Array<IAgingEntry<T>> = this._queue.unorderedItems.sort((a, b) => a.sequence - b.sequence);
+        this._queue.clear();
+        this._queue.enqueueRange(entries.map(entry => ({ element: entry, priority: this._policy(entry.priority, now - entry.enqueuedAt) })));
+        this._rekeyed_at = now;
+        this._operations_since_rekey = 0;
+    }
+
+    /**
+     * Forces re-key of all entries with current effective priorities, e.g. after long idle period.
+     */
+    public rekey(): void {
+        this._rekey(this._now());
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.clear
+     */
+    public clear(): void {
+        this._queue.clear();
+        this._operations_since_rekey = 0;
+    }
+
+    /**
+     * Adds the specified element with associated base priority to the queue
+     *
+     * @param elem - specified element
+     * @param priority - his base priority
+     */
+    public enqueue(elem: T, priority: number): void {
+        let now: number = this._now();
+        this._queue.enqueue({ element: elem, priority: priority, enqueuedAt: now, sequence: this._sequence++ },
+            this._policy(priority, this._rekeyed_at - now));
+        this._operations++;
+        this._operations_since_rekey++;
+    }
+
+    /**
+     * Removes and returns the element with the extreme (minimal) effective priority from the queue
+     *
+     * @returns The extreme (minimal) element
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public dequeue(): T {
+        if(this._queue.count == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        this._rekeyIfDue(this._now());
+        this._operations++;
+        this._operations_since_rekey++;
+        return this._queue.dequeue().element;
+    }
+
+    /**
+     * Returns the element with the extreme (minimal) effective priority from the queue without removing it.
+     *
+     * @returns The extreme (minimal) element
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public peek(): T {
+        return this.peekEntry().element;
+    }
+
+    /**
+     * Returns the element with the extreme (minimal) effective priority and its current effective priority
+     * from the queue without removing it.
+     *
+     * @returns The extreme (minimal) element with its effective priority
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public peekEntry(): IElementPriorityPair<T, number> {
+        if(this._queue.count == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        let now: number = this._now();
+        this._rekeyIfDue(now);
+        let entry: IAgingEntry<T> = this._queue.peek();
+        return { element: entry.element, priority: this._policy(entry.priority, now - entry.enqueuedAt) };
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.enqueueDequeue
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public enqueueDequeue(elem: T, priority: number): T {
+        if(this._queue.count == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        if(!(this.peekEntry().priority < priority))
+            return elem;
+        let result: T = this.dequeue();
+        this.enqueue(elem, priority);
+        return result;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.dequeueEnqueue
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public dequeueEnqueue(elem: T, priority: number): T {
+        let result: T = this.dequeue();
+        this.enqueue(elem, priority);
+        return result;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.enqueueRange
+     */
+    public enqueueRange(range: Array<IElementPriorityPair<T, number>>): void {
+        range.forEach(pair => this.enqueue(pair.element, pair.priority));
+    }
+}
@@ -0,0 +1,24 @@
+import { PriorityQueueException } from "./PriorityQueueException";
+
+/**
+ * Special class exception for throwing in situations when argument of method
+ * is invalid, e.g. non-finite priority in strict mode.
+ */
+export class ArgumentException extends PriorityQueueException {
+    
+    /**
+     * Name of exception
+     * 
+     * @defaultValue `ArgumentException`
+     */
+    name: string = 'ArgumentException';
+
+    /**
+     * Default constructor 
+     * 
+     * @param msg could provide some details about why exception happend
+     */
+    constructor(msg: string) {
+        super(msg);
+    }
+}
@@ -0,0 +1,249 @@
+import { IAsyncPriorityQueueOptions } from "./IAsyncPriorityQueueOptions";
+import { InvalidOperationException } from "./InvalidOperationException";
+import { PriorityQueue } from "./PriorityQueue";
+
+/**
+ * Pending call of {@link AsyncPriorityQueue.dequeueAsync} or {@link AsyncPriorityQueue.enqueueAsync}.
+ */
+interface IWaiter<TResult> {
+    resolve: (value: TResult) => void;
+    reject: (reason: unknown) => void;
+
+    /**
+     * Removes abort listener.
+     */
+    cleanup: () => void;
+}
+
+/**
+ * Pending call of {@link AsyncPriorityQueue.enqueueAsync} with its element.
+ */
+interface IProducer<T, TPriority> extends IWaiter<void> {
+    element: T;
+    priority: TPriority;
+}
+
+/**
+ * Asynchronous hand-off between producers and consumers built on {@link PriorityQueue}.
+ * Consumers wait for elements by {@link dequeueAsync} or `for await`, producers may wait
+ * for free space by {@link enqueueAsync} when high-water mark is reached.
+ *
+ * @typeParam T - Specifies the type of elements in the queue.
+ * @typeParam TPriority - Specifies the type of priority associated with enqueued elements (default `number`).
+ *
+ * @remarks Elements are handed to waiting consumers in a microtask after enqueue, so elements
+ * enqueued synchronously together are served in priority order, not in order of arrival.
+ * Waiting consumers are served in order of their calls.
+ */
+export class AsyncPriorityQueue<T, TPriority = number> implements AsyncIterable<T> {
+
+    /**
+     * Underlying queue.
+     */
+    private readonly _queue: PriorityQueue<T, TPriority>;
+
+    /**
+     * Number of elements at which producers start to wait.
+     */
+    private readonly _high_water_mark: number;
+
+    /**
+     * Waiting consumers in order of calls.
+     */
+    private _consumers: Array<IWaiter<T>> = [];
+
+    /**
+     * Waiting producers in order of calls.
+     */
+    private _producers: Array<IProducer<T, TPriority>> = [];
+
+    /**
+     * Whether the queue was closed by {@link close}.
+     */
+    private _closed: boolean = false;
+
+    /**
+     * Whether hand-off to waiting consumers is already scheduled.
+     */
+    private _dispatch_scheduled: boolean = false;
+
+    /**
+     * Gets the number of elements contained in the queue
+     */
+    public get count(): number {
+        return this._queue.count;
+    }
+
+    /**
+     * Gets whether the queue was closed.
+     */
+    public get closed(): boolean {
+        return this._closed;
+    }
+
+    /**
+     * Construcor of async priority queue.
+     *
+     * @param k - number of child nodes (recommended 4 or 8)
+     * @param options - options of underlying queue and high-water mark
+     */
+    constructor(k: number = 4, options: IAsyncPriorityQueueOptions<TPriority> = {}) {
+        this._queue = new PriorityQueue<T, TPriority>([], k, options);
+        this._high_water_mark = options.highWaterMark ?? Infinity;
+    }
+
+    /**
+     * Registers waiter that is rejected on abort of signal.
+     *
+     * @param list - list of waiters
+     * @param waiter - waiter without cleanup
+     * @param signal - optional abort signal
+     */
+    private _wait<TWaiter extends IWaiter<T> | IProducer<T, TPriority>>(list: Array<TWaiter>, waiter: TWaiter, signal?: AbortSignal) {
+        if(signal !== undefined) {
+            let onAbort = () => {
+                let index: number = list.indexOf(waiter);
+                if(index >= 0)
+                    list.splice(index, 1);
+                waiter.reject(signal.reason ?? new InvalidOperationException('The operation was aborted.'));
+            };
+            signal.addEventListener('abort', onAbort);
+            waiter.cleanup = () => signal.removeEventListener('abort', onAbort);
+        }
+        list.push(waiter);
+    }
+
+    /**
+     * Schedules hand-off of elements to waiting consumers.
+     */
+    private _scheduleDispatch() {
+        if(this._dispatch_scheduled)
+            return;
+        this._dispatch_scheduled = true;
+        Promise.resolve().then(() => {
+            this._dispatch_scheduled = false;
+            this._dispatch();
+        });
+    }
+
+    /**
+     * Hands elements to waiting consumers and moves elements of waiting producers into free space.
+     */
+    private _dispatch() {
+        while(true) {
+            while(this._consumers.length > 0 && this._queue.count > 0) {
+                let consumer = this._consumers.shift() as IWaiter<T>;
+                consumer.cleanup();
+                consumer.resolve(this._queue.dequeue());
+            }
+            if(this._producers.length == 0 || this._queue.count >= this._high_water_mark)
+                break;
+            while(this._producers.length > 0 && this._queue.count < this._high_water_mark) {
+                let producer = this._producers.shift() as IProducer<T, TPriority>;
+                producer.cleanup();
+                this._queue.enqueue(producer.element, producer.priority);
+                producer.resolve();
+            }
+        }
+    }
+
+    /**
+     * Adds the specified element with associated priority to the queue regardless of high-water mark.
+     *
+     * @param elem - specified element
+     * @param priority - his priority
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue is closed.
+     */
+    public enqueue(elem: T, priority: TPriority): void {
+        if(this._closed)
+            throw new InvalidOperationException('The queue is closed.');
+        this._queue.enqueue(elem, priority);
+        if(this._consumers.length > 0)
+            this._scheduleDispatch();
+    }
+
+    /**
+     * Adds the specified element with associated priority to the queue, waiting while the queue
+     * holds high-water mark elements or more.
+     *
+     * @param elem - specified element
+     * @param priority - his priority
+     * @param signal - optional signal to cancel waiting
+     * @returns promise resolved when element is in the queue, rejected if the queue is closed or signal aborted
+     */
+    public enqueueAsync(elem: T, priority: TPriority, signal?: AbortSignal): Promise<void> {
+        if(this._closed)
+            return Promise.reject(new InvalidOperationException('The queue is closed.'));
+        if(signal?.aborted)
+            return Promise.reject(signal.reason ?? new InvalidOperationException('The operation was aborted.'));
+        if(this._producers.length == 0 && this._queue.count < this._high_water_mark) {
+            this.enqueue(elem, priority);
+            return Promise.resolve();
+        }
+        return new Promise<void>((resolve, reject) => {
+            this._wait(this._producers, { resolve, reject, cleanup: () => {}, element: elem, priority: priority }, signal);
+        });
+    }
+
+    /**
+     * Removes and returns the extreme (minimal) element from the queue, waiting for it if the queue is empty.
+     *
+     * @param signal - optional signal to cancel waiting
+     * @returns promise of the extreme (minimal) element, rejected if the queue is closed and empty or signal aborted
+     */
+    public dequeueAsync(signal?: AbortSignal): Promise<T> {
+        if(signal?.aborted)
+            return Promise.reject(signal.reason ?? new InvalidOperationException('The operation was aborted.'));
+        if(this._consumers.length == 0 && this._queue.count > 0) {
+            let result: T = this._queue.dequeue();
+            if(this._producers.length > 0)
+                this._dispatch();
+            return Promise.resolve(result);
+        }
+        if(this._closed)
+            return Promise.reject(new InvalidOperationException('The queue is closed.'));
+        return new Promise<T>((resolve, reject) => {
+            this._wait(this._consumers, { resolve, reject, cleanup: () => {} }, signal);
+        });
+    }
+
+    /**
+     * Closes the queue: further enqueues are rejected, waiting producers and consumers are rejected
+     * with {@link InvalidOperationException}. Elements already in the queue may still be dequeued.
+     *
+     * @remarks Scheduled hand-off is finished first, so elements enqueued before close in the same
+     * tick reach consumers that are already waiting.
+     */
+    public close(): void {
+        if(this._closed)
+            return;
+        this._dispatch();
+        this._closed = true;
+        let waiters: Array<IWaiter<T> | IWaiter<void>> = [...this._consumers, ...this._producers];
+        this._consumers = [];
+        this._producers = [];
+        waiters.forEach(waiter => {
+            waiter.cleanup();
+            waiter.reject(new InvalidOperationException('The queue is closed.'));
+        });
+    }
+
+    /**
+     * Consumes elements in priority order by `for await` until the queue is closed and empty.
+     * Elements left in the queue on close are still consumed.
+     */
+    public async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+        while(true) {
+            try {
+                yield await this.dequeueAsync();
+            } catch(e) {
+                if(!this._closed)
+                    throw e;
+                if(this._queue.count == 0)
+                    return;
+            }
+        }
+    }
+}
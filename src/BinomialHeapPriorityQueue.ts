@@ -0,0 +1,457 @@
+import { Comparer } from "./Comparer";
+import { HeapIdentity } from "./HeapIdentity";
+import { IElementPriorityPair } from "./IElementPriorityPair";
+import { InvalidOperationException } from "./InvalidOperationException";
+import { IPriorityQueue } from "./IPriorityQueue";
+
+/**
+ * Node of binomial tree. Entries move between nodes on decrease of priority.
+ */
+class BinomialHeapNode<T, TPriority> {
+
+    /** Entry stored in node */
+    entry: BinomialHeapEntry<T, TPriority>;
+
+    /** Parent node */
+    parent: BinomialHeapNode<T, TPriority> | null = null;
+
+    /** First child (child with highest degree) */
+    child: BinomialHeapNode<T, TPriority> | null = null;
+
+    /** Right sibling or next root in root list */
+    sibling: BinomialHeapNode<T, TPriority> | null = null;
+
+    /** Number of children */
+    degree: number = 0;
+
+    /**
+     * @param entry - entry stored in node
+     */
+    constructor(entry: BinomialHeapEntry<T, TPriority>) {
+        this.entry = entry;
+        entry.node = this;
+    }
+}
+
+/**
+ * Element of binomial heap with its priority. Returned by {@link BinomialHeapPriorityQueue.enqueue}
+ * as opaque handle, don't modify its fields directly.
+ *
+ * @typeParam T - Specifies the type of elements in the queue.
+ * @typeParam TPriority - Specifies the type of priority associated with enqueued elements.
+ */
+export class BinomialHeapEntry<T, TPriority> {
+
+    /** Enqueued element */
+    element: T;
+
+    /** Priority of element */
+    priority: TPriority;
+
+    /** Node that currently stores entry */
+    node: BinomialHeapNode<T, TPriority> | null = null;
+
+    /** Identity of owner heap, `null` if entry left the heap */
+    identity: HeapIdentity | null;
+
+    /**
+     * Entries are created by queue only.
+     *
+     * @param element - enqueued element
+     * @param priority - his priority
+     * @param identity - identity of owner heap
+     */
+    constructor(element: T, priority: TPriority, identity: HeapIdentity) {
+        this.element = element;
+        this.priority = priority;
+        this.identity = identity;
+    }
+}
+
+/**
+ * Priority queue based on binomial heap with the same interface as {@link PriorityQueue}.
+ * On dequeue, the item with the lowest priority value is removed.
+ *
+ * @typeParam T - Specifies the type of elements in the queue.
+ * @typeParam TPriority - Specifies the type of priority associated with enqueued elements (default `number`).
+ *
+ * @remarks Enqueue takes amortized O(1) time, dequeue, peek, decrease of priority and meld
+ * take O(log n) time.
+ */
+export class BinomialHeapPriorityQueue<T, TPriority = number> implements IPriorityQueue<T, TPriority> {
+
+    /**
+     * Root list ordered by degree of trees.
+     */
+    private _head: BinomialHeapNode<T, TPriority> | null = null;
+
+    /**
+     * Count elements of heap.
+     */
+    private _size: number = 0;
+
+    /**
+     * Identity of heap, replaced on {@link clear} and {@link meld} to stale handles.
+     */
+    private _identity: HeapIdentity = new HeapIdentity();
+
+    /**
+     * Comparer of priorities. If it's `undefined`, priorities compared by native `<` operator.
+     */
+    private readonly _comparer: Comparer<TPriority> | undefined;
+
+    /** @inheritDoc IPriorityQueue.count */
+    public get count(): number {
+        return this._size;
+    }
+
+    /** @inheritDoc IPriorityQueue.unorderedItems */
+    public get unorderedItems(): Array<T> {
+        let result: Array<T> = [];
+        let stack: Array<BinomialHeapNode<T, TPriority>> = [];
+        if(this._head !== null)
+            stack.push(this._head);
+        while(stack.length > 0) {
+            let node = stack.pop() as BinomialHeapNode<T, TPriority>;
+            result.push(node.entry.element);
+            if(node.child !== null)
+                stack.push(node.child);
+            if(node.sibling !== null)
+                stack.push(node.sibling);
+        }
+        return result;
+    }
+
+    /**
+     * Construcor of priority queue. It accpets as arguments array of elemnts with associated priority (default empty)
+     * and comparer of priorities (default native `<` operator)
+     *
+     * @param range - sequence of elements
+     * @param comparer - comparer of priorities
+     */
+    constructor(range: Array<IElementPriorityPair<T, TPriority>> = [], comparer?: Comparer<TPriority>) {
+        this._comparer = comparer;
+        this.enqueueRange(range);
+    }
+
+    /**
+     * Compares two priorities with {@link _comparer} or native `<` operator if it isn't specified.
+     *
+     * @param x - first priority
+     * @param y - second priority
+     * @returns `true` if x strictly less than y
+     */
+    private _less(x: TPriority, y: TPriority): boolean {
+        return this._comparer === undefined ? x < y : this._comparer(x, y) < 0;
+    }
+
+    /**
+     * Makes tree y the first child of tree z of the same degree.
+     *
+     * @param y - root with greater priority
+     * @param z - root with lower priority
+     */
+    private _linkTrees(y: BinomialHeapNode<T, TPriority>, z: BinomialHeapNode<T, TPriority>) {
+        y.parent = z;
+        y.sibling = z.child;
+        z.child = y;
+        z.degree++;
+    }
+
+    /**
+     * Merges two root lists into one ordered by degree.
+     *
+     * @param a - first root list
+     * @param b - second root list
+     * @returns merged root list
+     */
+    private _mergeRootLists(a: BinomialHeapNode<T, TPriority> | null, b: BinomialHeapNode<T, TPriority> | null): BinomialHeapNode<T, TPriority> | null {
+        let head: BinomialHeapNode<T, TPriority> | null = null;
+        let tail: BinomialHeapNode<T, TPriority> | null = null;
+        while(a !== null || b !== null) {
+            let next: BinomialHeapNode<T, TPriority>;
+            if(b === null || (a !== null && a.degree <= b.degree)) {
+                next = a as BinomialHeapNode<T, TPriority>;
+                a = next.sibling;
+            } else {
+                next = b;
+                b = next.sibling;
+            }
+            if(tail === null)
+                head = next;
+            else
+                tail.sibling = next;
+            tail = next;
+        }
+        if(tail !== null)
+            tail.sibling = null;
+        return head;
+    }
+
+    /**
+     * Unites two root lists, so each degree occurs at most once.
+     *
+     * @param a - first root list
+     * @param b - second root list
+     * @returns united root list
+     */
+    private _union(a: BinomialHeapNode<T, TPriority> | null, b: BinomialHeapNode<T, TPriority> | null): BinomialHeapNode<T, TPriority> | null {
+        let head = this._mergeRootLists(a, b);
+        if(head === null)
+            return null;
+        let prev: BinomialHeapNode<T, TPriority> | null = null;
+        let x: BinomialHeapNode<T, TPriority> = head;
+        let next: BinomialHeapNode<T, TPriority> | null = x.sibling;
+        while(next !== null) {
+
+            // degrees differ or three roots of the same degree in a row: move forward
+            if(x.degree != next.degree || (next.sibling !== null && next.sibling.degree == x.degree)) {
+                prev = x;
+                x = next;
+            } else if(!this._less(next.entry.priority, x.entry.priority)) {
+                x.sibling = next.sibling;
+                this._linkTrees(next, x);
+            } else {
+                if(prev === null)
+                    head = next;
+                else
+                    prev.sibling = next;
+                this._linkTrees(x, next);
+                x = next;
+            }
+            next = x.sibling;
+        }
+        return head;
+    }
+
+    /**
+     * Finds root with minimal priority.
+     *
+     * @returns minimal root and its predecessor in root list
+     */
+    private _minRoot(): [BinomialHeapNode<T, TPriority>, BinomialHeapNode<T, TPriority> | null] {
+        let min = this._head as BinomialHeapNode<T, TPriority>;
+        let min_prev: BinomialHeapNode<T, TPriority> | null = null;
+        let prev: BinomialHeapNode<T, TPriority> = min;
+        for(let node = min.sibling; node !== null; prev = node, node = node.sibling) {
+            if(this._less(node.entry.priority, min.entry.priority)) {
+                min = node;
+                min_prev = prev;
+            }
+        }
+        return [min, min_prev];
+    }
+
+    /**
+     * Removes root from root list and unites its children with the heap.
+     *
+     * @param root - root to remove
+     * @param prev - predecessor of root in root list
+     * @returns entry of removed root
+     */
+    private _removeRoot(root: BinomialHeapNode<T, TPriority>, prev: BinomialHeapNode<T, TPriority> | null): BinomialHeapEntry<T, TPriority> {
+        if(prev === null)
+            this._head = root.sibling;
+        else
+            prev.sibling = root.sibling;
+
+        // children are ordered by decreasing degree, so reverse them
+        let reversed: BinomialHeapNode<T, TPriority> | null = null;
+        let child: BinomialHeapNode<T, TPriority> | null = root.child;
+        while(child !== null) {
+            let next: BinomialHeapNode<T, TPriority> | null = child.sibling;
+            child.sibling = reversed;
+            child.parent = null;
+            reversed = child;
+            child = next;
+        }
+        this._head = this._union(this._head, reversed);
+        this._size--;
+        let entry = root.entry;
+        entry.node = null;
+        entry.identity = null;
+        return entry;
+    }
+
+    /**
+     * Moves entry up to the root of its tree.
+     *
+     * @param entry - entry to move
+     * @param force - move up regardless of priorities (used by removal)
+     * @returns node that stores entry after moving
+     */
+    private _bubbleUp(entry: BinomialHeapEntry<T, TPriority>, force: boolean): BinomialHeapNode<T, TPriority> {
+        let node = entry.node as BinomialHeapNode<T, TPriority>;
+        while(node.parent !== null && (force || this._less(entry.priority, node.parent.entry.priority))) {
+            let parent: BinomialHeapNode<T, TPriority> = node.parent;
+            node.entry = parent.entry;
+            node.entry.node = node;
+            parent.entry = entry;
+            entry.node = parent;
+            node = parent;
+        }
+        return node;
+    }
+
+    /**
+     * Helper method that checks handle and throws if it's stale.
+     *
+     * @param handle - handle returned by {@link enqueue}
+     */
+    private _check(handle: BinomialHeapEntry<T, TPriority>) {
+        if(!this.contains(handle))
+            throw new InvalidOperationException('The handle does not belong to element of the queue.');
+    }
+
+    /**
+     * Helper method that adds entry as single-node tree.
+     *
+     * @param entry - entry to add
+     */
+    private _insert(entry: BinomialHeapEntry<T, TPriority>) {
+        entry.identity = this._identity;
+        this._head = this._union(this._head, new BinomialHeapNode<T, TPriority>(entry));
+        this._size++;
+    }
+
+    /** @inheritDoc IPriorityQueue.clear */
+    public clear(): void {
+        this._head = null;
+        this._size = 0;
+        this._identity = new HeapIdentity();
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.enqueue
+     *
+     * @returns handle of element for further {@link updatePriority}, {@link remove} and {@link contains} calls
+     */
+    public enqueue(elem: T, priority: TPriority): BinomialHeapEntry<T, TPriority> {
+        let entry = new BinomialHeapEntry<T, TPriority>(elem, priority, this._identity);
+        this._insert(entry);
+        return entry;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.dequeue
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public dequeue(): T {
+        if(this._head === null)
+            throw new InvalidOperationException('The queue is empty.');
+        let [min, prev] = this._minRoot();
+        return this._removeRoot(min, prev).element;
+    }
+
+    /** @inheritDoc IPriorityQueue.peek */
+    public peek(): T {
+        if(this._head === null)
+            throw new InvalidOperationException('The queue is empty.');
+        return this._minRoot()[0].entry.element;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.enqueueDequeue
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public enqueueDequeue(elem: T, priority: TPriority): T {
+        if(this._head === null)
+            throw new InvalidOperationException('The queue is empty.');
+        if(!this._less(this._minRoot()[0].entry.priority, priority))
+            return elem;
+        let result: T = this.dequeue();
+        this.enqueue(elem, priority);
+        return result;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.dequeueEnqueue
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public dequeueEnqueue(elem: T, priority: TPriority): T {
+        let result: T = this.dequeue();
+        this.enqueue(elem, priority);
+        return result;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.enqueueRange
+     *
+     * @returns handles of elements in the same order as in range
+     */
+    public enqueueRange(range: Array<IElementPriorityPair<T, TPriority>>): Array<BinomialHeapEntry<T, TPriority>> {
+        return range.map(pair => this.enqueue(pair.element, pair.priority));
+    }
+
+    /**
+     * Checks whether element referenced by handle is still in the queue.
+     *
+     * @param handle - handle returned by {@link enqueue}
+     * @returns `false` if element was dequeued, removed or handle is issued by another queue
+     */
+    public contains(handle: BinomialHeapEntry<T, TPriority>): boolean {
+        return handle.identity !== null && handle.identity.resolve() === this._identity;
+    }
+
+    /**
+     * Changes priority of element referenced by handle. Takes O(log n) time.
+     *
+     * @param handle - handle returned by {@link enqueue}
+     * @param priority - new priority
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if handle is stale.
+     */
+    public updatePriority(handle: BinomialHeapEntry<T, TPriority>, priority: TPriority): void {
+        this._check(handle);
+        if(this._less(priority, handle.priority)) {
+            handle.priority = priority;
+            this._bubbleUp(handle, false);
+        } else {
+            this.remove(handle);
+            handle.priority = priority;
+            this._insert(handle);
+        }
+    }
+
+    /**
+     * Removes element referenced by handle from the queue.
+     *
+     * @param handle - handle returned by {@link enqueue}
+     * @returns removed element
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if handle is stale.
+     */
+    public remove(handle: BinomialHeapEntry<T, TPriority>): T {
+        this._check(handle);
+        let root = this._bubbleUp(handle, true);
+        let prev: BinomialHeapNode<T, TPriority> | null = null;
+        for(let node = this._head; node !== root; node = (node as BinomialHeapNode<T, TPriority>).sibling)
+            prev = node;
+        return this._removeRoot(root, prev).element;
+    }
+
+    /**
+     * Moves all elements of other queue into this one in O(log n) time. Other queue becomes empty,
+     * handles of its elements remain valid for this queue.
+     *
+     * @param other - queue to meld, must use the same ordering of priorities
+     */
+    public meld(other: BinomialHeapPriorityQueue<T, TPriority>): void {
+        if(other === this)
+            return;
+        this._head = this._union(this._head, other._head);
+        this._size += other._size;
+        other._identity.forward = this._identity;
+        other._identity = new HeapIdentity();
+        other._head = null;
+        other._size = 0;
+    }
+}
@@ -0,0 +1,246 @@
+import { ArgumentException } from "./ArgumentException";
+import { checkPriority } from "./checkPriority";
+import { Comparer } from "./Comparer";
+import { IBoundedPriorityQueueOptions } from "./IBoundedPriorityQueueOptions";
+import { IElementPriorityPair } from "./IElementPriorityPair";
+import { IPriorityQueue } from "./IPriorityQueue";
+import { PriorityQueue } from "./PriorityQueue";
+
+/**
+ * Bounded (top-K) priority queue that keeps at most `maxSize` elements with the greatest priorities.
+ * When the queue is full, the worst (minimal) element is evicted.
+ * 
+ * @typeParam T - Specifies the type of elements in the queue. 
+ * @typeParam TPriority - Specifies the type of priority associated with enqueued elements (default `number`).
+ * 
+ * @remarks Built on the same k-ary min-heap as {@link PriorityQueue}, so the worst element is always
+ * on top: {@link peek} and {@link dequeue} return it and eviction takes O(log n) time. If you need
+ * elements with the lowest priorities (e.g. k nearest neighbours by distance), pass {@link reverseComparer}.
+ * Evicted elements are returned by {@link enqueue} and {@link enqueueRange} and reported to `onEvict` callback.
+ */
+export class BoundedPriorityQueue<T, TPriority = number> implements IPriorityQueue<T, TPriority> {
+
+    /**
+     * Underlying k-ary min-heap.
+     */
+    private readonly _queue: PriorityQueue<T, TPriority>;
+
+    /**
+     * Maximum number of elements.
+     */
+    private readonly _max_size: number;
+
+    /**
+     * Options of underlying heap and eviction callback.
+     */
+    private readonly _options: IBoundedPriorityQueueOptions<T, TPriority>;
+
+    /**
+     * Comparer of priorities. If it's `undefined`, priorities compared by native `<` operator.
+     */
+    private readonly _comparer: Comparer<TPriority> | undefined;
+
+    /** @inheritDoc IPriorityQueue.count */
+    public get count(): number {
+        return this._queue.count;
+    }
+
+    /**
+     * Gets the maximum number of elements in the queue.
+     */
+    public get maxSize(): number {
+        return this._max_size;
+    }
+
+    /** @inheritDoc IPriorityQueue.unorderedItems */
+    public get unorderedItems(): Array<T> {
+        return this._queue.unorderedItems;
+    }
+
+    /**
+     * Construcor of bounded priority queue. It accpets as arguments maximum number of elements,
+     * array of elemnts with associated priority (default empty), number of child nodes (default 4)
+     * and options of queue.
+     * 
+     * @param maxSize - maximum number of elements
+     * @param range - sequence of elements, only `maxSize` greatest of them are kept
+     * @param k - number of child nodes (recommended 4 or 8)
+     * @param options - options of queue and eviction callback
+     * 
+     * @throws {@link ArgumentException}
+     * This exception is thrown if `maxSize` isn't positive integer.
+     */
+    constructor(maxSize: number, range: Array<IElementPriorityPair<T, TPriority>> = [], k: number = 4,
+        options: IBoundedPriorityQueueOptions<T, TPriority> = {}) {
+        if(!Number.isInteger(maxSize) || maxSize < 1)
+            throw new ArgumentException(`Invalid maximum size: ${maxSize}.`);
+        this._max_size = maxSize;
+        this._options = options;
+        this._comparer = options.comparer;
+        this._queue = new PriorityQueue<T, TPriority>([], k, { ...options, initialCapacity: Math.min(maxSize, options.initialCapacity ?? 16) });
+        this.enqueueRange(range);
+    }
+
+    /**
+     * Compares two priorities with {@link _comparer} or native `<` operator if it isn't specified.
+     * 
+     * @param x - first priority
+     * @param y - second priority
+     * @returns `true` if x strictly less than y
+     */
+    private _less(x: TPriority, y: TPriority): boolean {
+        return this._comparer === undefined ? x < y : this._comparer(x, y) < 0;
+    }
+
+    /**
+     * Helper method that reports evicted element to callback.
+     * 
+     * @param pair - evicted element with priority
+     * @returns the same pair
+     */
+    private _evict(pair: IElementPriorityPair<T, TPriority>): IElementPriorityPair<T, TPriority> {
+        if(this._options.onEvict !== undefined)
+            this._options.onEvict(pair.element, pair.priority);
+        return pair;
+    }
+
+    /**
+     * Partially sorts pairs by quickselect, so `count` pairs with the greatest priorities
+     * are placed at the end of array.
+     * 
+     * @param pairs - pairs to partially sort
+     * @param count - number of greatest pairs
+     */
+    private _select(pairs: Array<IElementPriorityPair<T, TPriority>>, count: number) {
+        let target: number = pairs.length - count;
+        let left: number = 0;
+        let right: number = pairs.length - 1;
+        while(left < right) {
+            let pivot: TPriority = pairs[left + Math.floor(Math.random() * (right - left + 1))].priority;
+            let i: number = left;
+            let j: number = right;
+            while(i <= j) {
+                while(this._less(pairs[i].priority, pivot))
+                    i++;
+                while(this._less(pivot, pairs[j].priority))
+                    j--;
+                if(i <= j) {
+                    [pairs[i], pairs[j]] = [pairs[j], pairs[i]];
+                    i++;
+                    j--;
+                }
+            }
+            if(target <= j)
+                right = j;
+            else if(target >= i)
+                left = i;
+            else
+                break;
+        }
+    }
+
+    /** @inheritDoc IPriorityQueue.clear */
+    public clear(): void {
+        this._queue.clear();
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.enqueue
+     * 
+     * @returns evicted element with priority (it may be the enqueued one) or `undefined` if the queue isn't full
+     */
+    public enqueue(elem: T, priority: TPriority): IElementPriorityPair<T, TPriority> | undefined {
+        if(this._options.strict)
+            checkPriority(priority, this._comparer);
+        if(this._queue.count < this._max_size) {
+            this._queue.enqueue(elem, priority);
+            return undefined;
+        }
+
+        // on tie the retained element wins, cause it was enqueued earlier
+        let worst: IElementPriorityPair<T, TPriority> = this._queue.peekEntry();
+        if(!this._less(worst.priority, priority))
+            return this._evict({ element: elem, priority: priority });
+        this._queue.dequeueEnqueue(elem, priority);
+        return this._evict(worst);
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.dequeue
+     * 
+     * @returns The worst (minimal) retained element
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public dequeue(): T {
+        return this._queue.dequeue();
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.peek
+     * 
+     * @returns The worst (minimal) retained element
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public peek(): T {
+        return this._queue.peek();
+    }
+
+    /** @inheritDoc IPriorityQueue.enqueueDequeue */
+    public enqueueDequeue(elem: T, priority: TPriority): T {
+        return this._queue.enqueueDequeue(elem, priority);
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.dequeueEnqueue
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public dequeueEnqueue(elem: T, priority: TPriority): T {
+        return this._queue.dequeueEnqueue(elem, priority);
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.enqueueRange
+     * 
+     * @remarks If range is much longer than `maxSize`, the greatest elements are selected in linear time
+     * and the heap is rebuilt once. This fast path isn't used in stable mode.
+     * In strict mode all priorities are checked before any element is enqueued.
+     * 
+     * @returns evicted elements with priorities
+     */
+    public enqueueRange(range: Array<IElementPriorityPair<T, TPriority>>): Array<IElementPriorityPair<T, TPriority>> {
+        if(this._options.strict)
+            range.forEach(pair => checkPriority(pair.priority, this._comparer));
+        let evicted: Array<IElementPriorityPair<T, TPriority>> = [];
+        if(this._options.stable || range.length < this._max_size * 2) {
+            range.forEach(pair => {
+                let result = this.enqueue(pair.element, pair.priority);
+                if(result !== undefined)
+                    evicted.push(result);
+            });
+            return evicted;
+        }
+        let pairs: Array<IElementPriorityPair<T, TPriority>> = this._queue.unorderedEntries.concat(range);
+        this._select(pairs, this._max_size);
+        evicted = pairs.slice(0, pairs.length - this._max_size);
+        this._queue.clear();
+        this._queue.enqueueRange(pairs.slice(pairs.length - this._max_size));
+        evicted.forEach(pair => this._evict(pair));
+        return evicted;
+    }
+
+    /**
+     * Returns retained elements sorted from the best (maximal) to the worst (minimal) priority
+     * without changing the queue.
+     * 
+     * @returns sorted elements
+     */
+    public toSortedArray(): Array<T> {
+        return Array.from(this._queue.orderedItems()).reverse();
+    }
+}
@@ -0,0 +1,222 @@
+import { ArgumentException } from "./ArgumentException";
+import { IElementPriorityPair } from "./IElementPriorityPair";
+import { InvalidOperationException } from "./InvalidOperationException";
+import { IPriorityQueue } from "./IPriorityQueue";
+
+/**
+ * Monotone priority queue based on Dial's bucket queue for non-negative integer priorities.
+ * It's the fastest choice when priorities of enqueued elements never go below the last dequeued one
+ * and stay within small span from it, e.g. Dijkstra's algorithm with small integer weights.
+ * 
+ * @typeParam T - Specifies the type of elements in the queue.
+ * 
+ * @remarks Buckets form circular array indexed by priority modulo its length, one bucket per priority
+ * in window [last dequeued, last dequeued + length). Window grows in powers of 2 when enqueued priority
+ * doesn't fit it, so memory is O(n + C), where C is the maximal difference of priorities in the queue.
+ * Enqueue takes O(1) time and dequeue scans empty buckets up to next priority.
+ */
+export class BucketPriorityQueue<T> implements IPriorityQueue<T, number> {
+
+    /**
+     * Circular array of buckets. Bucket i holds elements with priority p, where p % length == i.
+     */
+    private _buckets: Array<Array<T>> = [];
+
+    /**
+     * Count elements of queue.
+     */
+    private _size: number = 0;
+
+    /**
+     * Last dequeued priority, lower bound of enqueued priorities.
+     */
+    private _last: number = 0;
+
+    /** @inheritDoc IPriorityQueue.count */
+    public get count(): number {
+        return this._size;
+    }
+
+    /**
+     * Gets the last dequeued priority. Enqueued priorities must not be less than it.
+     */
+    public get lastPriority(): number {
+        return this._last;
+    }
+
+    /** @inheritDoc IPriorityQueue.unorderedItems */
+    public get unorderedItems(): Array<T> {
+        let result: Array<T> = [];
+        this._buckets.forEach(bucket => result.push(...bucket));
+        return result;
+    }
+
+    /**
+     * Construcor of bucket queue. It accpets as arguments array of elemnts with associated priority (default empty)
+     * and initial number of buckets (default 16).
+     * 
+     * @param range - sequence of elements
+     * @param span - expected maximal difference of priorities in the queue, e.g. maximal weight of edge
+     * 
+     * @throws {@link ArgumentException}
+     * This exception is thrown if some priority isn't non-negative safe integer.
+     */
+    constructor(range: Array<IElementPriorityPair<T, number>> = [], span: number = 16) {
+        this._resize(span);
+        this.enqueueRange(range);
+    }
+
+    /**
+     * Checks monotone rule for priority.
+     * 
+     * @param priority - checked priority
+     * 
+     * @throws {@link ArgumentException}
+     * This exception is thrown if priority is invalid or less than last dequeued one.
+     */
+    private _checkPriority(priority: number) {
+        if(!Number.isSafeInteger(priority) || priority < 0)
+            throw new ArgumentException(`Priority must be non-negative safe integer: ${priority}.`);
+        if(priority < this._last)
+            throw new ArgumentException(`Priority ${priority} is less than last dequeued priority ${this._last}.`);
+    }
+
+    /**
+     * Reallocates buckets, so window holds at least `span` priorities, and moves elements into new buckets.
+     * 
+     * @param span - required number of buckets
+     */
+    private _resize(span: number) {
+        let length: number = Math.max(this._buckets.length * 2, 1);
+        while(length < span)
+            length *= 2;
+        let buckets: Array<Array<T>> = new Array(length);
+        for(let i = 0; i < length; i++)
+            buckets[i] = [];
+
+        // priority of old bucket is the first one of window that fits it
+        let old_length: number = this._buckets.length;
+        for(let d = 0; d < old_length; d++) {
+            let priority: number = this._last + d;
+            buckets[priority % length] = this._buckets[priority % old_length];
+        }
+        this._buckets = buckets;
+    }
+
+    /**
+     * Returns distance from last dequeued priority to minimal one. Queue must not be empty.
+     * 
+     * @returns offset of minimal priority in window
+     */
+    private _findMin(): number {
+        let length: number = this._buckets.length;
+        let d: number = 0;
+        while(this._buckets[(this._last + d) % length].length == 0)
+            d++;
+        return d;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.clear
+     * 
+     * @remarks Last dequeued priority is reset to 0.
+     */
+    public clear(): void {
+        this._buckets.forEach(bucket => bucket.length = 0);
+        this._size = 0;
+        this._last = 0;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.enqueue
+     * 
+     * @throws {@link ArgumentException}
+     * This exception is thrown if priority isn't non-negative safe integer or less than last dequeued one.
+     */
+    public enqueue(elem: T, priority: number): void {
+        this._checkPriority(priority);
+        if(priority - this._last >= this._buckets.length)
+            this._resize(priority - this._last + 1);
+        this._buckets[priority % this._buckets.length].push(elem);
+        this._size++;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.dequeue
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public dequeue(): T {
+        if(this._size == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        this._last += this._findMin();
+        this._size--;
+        return this._buckets[this._last % this._buckets.length].pop() as T;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.peek
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public peek(): T {
+        if(this._size == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        let bucket: Array<T> = this._buckets[(this._last + this._findMin()) % this._buckets.length];
+        return bucket[bucket.length - 1];
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.enqueueDequeue
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     * 
+     * @throws {@link ArgumentException}
+     * This exception is thrown if priority isn't non-negative safe integer or less than last dequeued one.
+     */
+    public enqueueDequeue(elem: T, priority: number): T {
+        if(this._size == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        this._checkPriority(priority);
+        if(priority <= this._last + this._findMin())
+            return elem;
+        let result: T = this.dequeue();
+        this.enqueue(elem, priority);
+        return result;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.dequeueEnqueue
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     * 
+     * @throws {@link ArgumentException}
+     * This exception is thrown if priority isn't non-negative safe integer or less than dequeued one.
+     */
+    public dequeueEnqueue(elem: T, priority: number): T {
+        if(this._size == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        this._checkPriority(priority);
+        let min: number = this._last + this._findMin();
+        if(priority < min)
+            throw new ArgumentException(`Priority ${priority} is less than dequeued priority ${min}.`);
+        let result: T = this.dequeue();
+        this.enqueue(elem, priority);
+        return result;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.enqueueRange
+     * 
+     * @throws {@link ArgumentException}
+     * This exception is thrown if some priority is invalid, no element is added then.
+     */
+    public enqueueRange(range: Array<IElementPriorityPair<T, number>>): void {
+        range.forEach(pair => this._checkPriority(pair.priority));
+        range.forEach(pair => this.enqueue(pair.element, pair.priority));
+    }
+}
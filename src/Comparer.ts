@@ -0,0 +1,28 @@
+/**
+ * C#-like comparer of priorities (analogue of `IComparer<T>.Compare`).
+ * Must return negative number if x less than y, zero if they are equal and positive number otherwise.
+ * 
+ * @typeParam TPriority - Specifies the type of priority.
+ */
+export type Comparer<TPriority> = (x: TPriority, y: TPriority) => number;
+
+/**
+ * Comparer based on native `<` and `>` operators. Suitable for number, bigint, string and Date priorities.
+ * 
+ * @param x - first priority
+ * @param y - second priority
+ * @returns result of comparison
+ */
+export function defaultComparer<TPriority>(x: TPriority, y: TPriority): number {
+    return x < y ? -1 : (x > y ? 1 : 0);
+}
+
+/**
+ * Builds comparer with reversed ordering, e.g. for using queue as max-heap.
+ * 
+ * @param comparer - comparer to reverse (default {@link defaultComparer})
+ * @returns reversed comparer
+ */
+export function reverseComparer<TPriority>(comparer: Comparer<TPriority> = defaultComparer): Comparer<TPriority> {
+    return (x: TPriority, y: TPriority) => comparer(y, x);
+}
@@ -0,0 +1,144 @@
+import { IDelayQueueOptions } from "./IDelayQueueOptions";
+import { PriorityQueue } from "./PriorityQueue";
+
+/**
+ * Delayed element with its expiration time.
+ */
+interface IDelayedEntry<T> {
+    element: T;
+    expiresAt: number;
+}
+
+/**
+ * Queue of delayed elements built on {@link PriorityQueue} with ready times as priorities.
+ * Elements become available only after their ready time, elements with the same ready time
+ * are polled in order of insertion.
+ * 
+ * @typeParam T - Specifies the type of elements in the queue.
+ * 
+ * @remarks Expired elements are dropped lazily when they reach head of the queue, so {@link count}
+ * may include them until {@link pollReady}, {@link nextReadyAt} or {@link purgeExpired} is called.
+ */
+export class DelayQueue<T> {
+
+    /**
+     * Underlying queue ordered by ready time.
+     */
+    private readonly _queue: PriorityQueue<IDelayedEntry<T>>;
+
+    /**
+     * Source of current time.
+     */
+    private readonly _clock: () => number;
+
+    /**
+     * Default time to live of elements.
+     */
+    private readonly _ttl: number;
+
+    /**
+     * Gets the number of elements contained in the queue, including expired ones that are not dropped yet.
+     */
+    public get count(): number {
+        return this._queue.count;
+    }
+
+    /**
+     * Gets the ready time of the next element or `undefined` if the queue is empty.
+     * Expired elements at head of the queue are dropped first.
+     */
+    public get nextReadyAt(): number | undefined {
+        this._dropExpiredHead(this._clock());
+        return this._queue.count > 0 ? this._queue.peekEntry().priority : undefined;
+    }
+
+    /**
+     * Construcor of delay queue.
+     * 
+     * @param k - number of child nodes (recommended 4 or 8)
+     * @param options - clock and default time to live
+     */
+    constructor(k: number = 4, options: IDelayQueueOptions = {}) {
+        this._queue = new PriorityQueue<IDelayedEntry<T>>([], k, { stable: true, initialCapacity: options.initialCapacity });
+        this._clock = options.clock ?? Date.now;
+        this._ttl = options.ttl ?? Infinity;
+    }
+
+    /**
+     * Drops expired elements from head of the queue.
+     * 
+     * @param now - current time
+     */
+    private _dropExpiredHead(now: number) {
+        while(this._queue.count > 0 && this._queue.peek().expiresAt <= now)
+            this._queue.dequeue();
+    }
+
+    /**
+     * Adds element that becomes ready after delay.
+     * 
+     * @param elem - specified element
+     * @param delay - delay in milliseconds from current time
+     * @param ttl - time to live in milliseconds after ready time (default `ttl` option)
+     */
+    public enqueue(elem: T, delay: number, ttl: number = this._ttl): void {
+        this.enqueueAt(elem, this._clock() + delay, ttl);
+    }
+
+    /**
+     * Adds element that becomes ready at specified time.
+     * 
+     * @param elem - specified element
+     * @param readyAt - ready time in milliseconds of clock
+     * @param ttl - time to live in milliseconds after ready time (default `ttl` option)
+     */
+    public enqueueAt(elem: T, readyAt: number, ttl: number = this._ttl): void {
+        this._queue.enqueue({ element: elem, expiresAt: readyAt + ttl }, readyAt);
+    }
+
+    /**
+     * Removes and returns the earliest ready element, if any.
+     * 
+     * @param now - current time (default time of clock)
+     * @returns ready element or `undefined` if no element is due
+     */
+    public poll(now: number = this._clock()): T | undefined {
+        this._dropExpiredHead(now);
+        if(this._queue.count == 0 || this._queue.peekEntry().priority > now)
+            return undefined;
+        return this._queue.dequeue().element;
+    }
+
+    /**
+     * Removes and returns all ready elements in order of their ready times.
+     * 
+     * @param now - current time (default time of clock)
+     * @returns ready elements, expired ones are dropped silently
+     */
+    public pollReady(now: number = this._clock()): Array<T> {
+        let result: Array<T> = [];
+        while(this._queue.count > 0 && this._queue.peekEntry().priority <= now) {
+            let entry: IDelayedEntry<T> = this._queue.dequeue();
+            if(entry.expiresAt > now)
+                result.push(entry.element);
+        }
+        return result;
+    }
+
+    /**
+     * Drops all expired elements in one pass.
+     * 
+     * @param now - current time (default time of clock)
+     * @returns number of dropped elements
+     */
+    public purgeExpired(now: number = this._clock()): number {
+        return this._queue.removeWhere(entry => entry.expiresAt <= now);
+    }
+
+    /**
+     * Removes all elements from the queue.
+     */
+    public clear(): void {
+        this._queue.clear();
+    }
+}
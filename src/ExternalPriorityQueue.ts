@@ -0,0 +1,488 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { IExternalPriorityQueueOptions } from "./IExternalPriorityQueueOptions";
+
+// separate entry point shares classes with main bundle, so everything else comes from its entry
+import { ArgumentException, IElementCodec, IElementPriorityPair, InvalidOperationException, IPriorityQueue,
+    jsonElementCodec, PriorityQueue, SerializationException } from "./index";
+
+/**
+ * Sorted run in temp file with read cursor. Record of run is priority (64-bit float),
+ * length of element (32-bit) and bytes of element, all little-endian.
+ */
+interface IRun<T> {
+    path: string;
+    fd: number;
+
+    /**
+     * File offset of the next unread record.
+     */
+    position: number;
+
+    /**
+     * Number of unread records (head isn't counted).
+     */
+    remaining: number;
+
+    /**
+     * Read buffer holding file slice [chunkStart..chunkEnd-1].
+     */
+    chunk: Uint8Array;
+    chunkStart: number;
+    chunkEnd: number;
+
+    /**
+     * Current (minimal) record of run.
+     */
+    head: IElementPriorityPair<T, number>;
+}
+
+/**
+ * Size of record header: priority and length of element.
+ */
+const RECORD_HEADER: number = 12;
+
+/**
+ * External-memory priority queue for workloads that don't fit in memory. It keeps bounded
+ * {@link PriorityQueue} as buffer, spills it to temp files as sorted runs when the buffer is full
+ * and merges runs lazily on {@link dequeue}.
+ *
+ * @typeParam T - Specifies the type of elements in the queue.
+ *
+ * @remarks Priorities are stored as 64-bit floats, so only numeric priorities are supported, ties
+ * are resolved in arbitrary order. Files are read and written synchronously by chunks. Call {@link close}
+ * when the queue isn't needed anymore, otherwise temp files stay on disk.
+ *
+ * When `maxRuns` is reached, only the smaller half of runs is merged, so runs grow in tiers
+ * and each element is rewritten roughly logarithmic number of times instead of on every merge.
+ *
+ * The queue depends on Node.js `fs`, `os` and `path`, so it isn't part of main bundle and is
+ * shipped as separate entry point `dist/ExternalPriorityQueue.umd.js` (`dist/ExternalPriorityQueue.es5.js`).
+ */
+export class ExternalPriorityQueue<T> implements IPriorityQueue<T, number> {
+
+    /**
+     * In-memory buffer of recently enqueued elements.
+     */
+    private readonly _buffer: PriorityQueue<T>;
+
+    /**
+     * Runs on disk ordered by priority of their heads.
+     */
+    private readonly _runs: PriorityQueue<IRun<T>>;
+
+    /**
+     * Maximum number of elements in {@link _buffer}.
+     */
+    private readonly _memory_limit: number;
+
+    /**
+     * Maximum number of runs on disk.
+     */
+    private readonly _max_runs: number;
+
+    /**
+     * Directory where {@link _directory} is created.
+     */
+    private readonly _base_directory: string;
+
+    /**
+     * Codec of elements in run files.
+     */
+    private readonly _codec: IElementCodec<T>;
+
+    /**
+     * Size of read and write buffers.
+     */
+    private readonly _chunk_size: number;
+
+    /**
+     * Temp directory of run files, it's created on first spill.
+     */
+    private _directory: string | undefined;
+
+    /**
+     * Counter of run files for their names.
+     */
+    private _run_counter: number = 0;
+
+    /**
+     * Count elements in memory and on disk.
+     */
+    private _size: number = 0;
+
+    /**
+     * Whether the queue was closed by {@link close}.
+     */
+    private _closed: boolean = false;
+
+    /**
+     * Gets the number of elements contained in the queue
+     */
+    public get count(): number {
+        return this._size;
+    }
+
+    /**
+     * Gets the number of runs on disk.
+     */
+    public get runCount(): number {
+        return this._runs.count;
+    }
+
+    /**
+     * Gets whether the queue was closed.
+     */
+    public get closed(): boolean {
+        return this._closed;
+    }
+
+    /**
+     * Gets a collection that enumerates the elements of the queue in an unordered manner.
+     *
+     * @remarks It reads all runs from disk, so collection must fit in memory.
+     */
+    public get unorderedItems(): Array<T> {
+        let result: Array<T> = this._buffer.unorderedItems;
+        for(let run of this._runs.unorderedItems) {
+            let cursor: IRun<T> = { ...run, chunk: new Uint8Array(0), chunkStart: 0, chunkEnd: 0 };
+            result.push(run.head.element);
+            while(cursor.remaining > 0)
+                result.push(this._read(cursor).element);
+        }
+        return result;
+    }
+
+    /**
+     * Construcor of external priority queue.
+     *
+     * @param k - number of child nodes of in-memory buffer (recommended 4 or 8)
+     * @param options - memory limit, location of temp files and codec of elements
+     */
+    constructor(k: number = 4, options: IExternalPriorityQueueOptions<T> = {}) {
+        this._memory_limit = options.memoryLimit ?? 1 << 20;
+        this._max_runs = options.maxRuns ?? 64;
+        this._base_directory = options.directory ?? os.tmpdir();
+        this._codec = options.elementCodec ?? jsonElementCodec as IElementCodec<T>;
+        this._chunk_size = options.chunkSize ?? 1 << 16;
+        if(!(this._memory_limit >= 1))
+            throw new ArgumentException(`Memory limit must be at least 1: ${this._memory_limit}.`);
+        if(!(this._max_runs >= 2))
+            throw new ArgumentException(`Maximum number of runs must be at least 2: ${this._max_runs}.`);
+        this._buffer = new PriorityQueue<T>([], k, { initialCapacity: Math.min(this._memory_limit, 16) });
+        this._runs = new PriorityQueue<IRun<T>>([], 4);
+    }
+
+    /**
+     * Throws if the queue is closed.
+     */
+    private _checkOpen() {
+        if(this._closed)
+            throw new InvalidOperationException('The queue is closed.');
+    }
+
+    /**
+     * Throws if priority can't be stored as 64-bit float.
+     *
+     * @param priority - priority to check
+     */
+    private _checkPriority(priority: number) {
+        if(typeof priority !== 'number' || Number.isNaN(priority))
+            throw new ArgumentException(`Invalid priority: ${String(priority)}.`);
+    }
+
+    /**
+     * Makes sure that file slice [position..position+length-1] of run is in its read buffer.
+     *
+     * @param run - run to read
+     * @param length - number of bytes from cursor
+     * @returns view of read buffer
+     */
+    private _fill(run: IRun<T>, length: number): DataView {
+        if(run.position < run.chunkStart || run.position + length > run.chunkEnd) {
+            let size: number = Math.max(this._chunk_size, length);
+            if(run.chunk.length < size)
+                run.chunk = new Uint8Array(size);
+            let read: number = fs.readSync(run.fd, run.chunk, 0, size, run.position);
+            run.chunkStart = run.position;
+            run.chunkEnd = run.position + read;
+            if(read < length)
+                throw new SerializationException(`Run file ${run.path} is truncated.`);
+        }
+        return new DataView(run.chunk.buffer, run.chunk.byteOffset, run.chunk.byteLength);
+    }
+
+    /**
+     * Reads record at cursor of run and moves cursor to the next one.
+     *
+     * @param run - run to read
+     * @returns element with its priority
+     */
+    private _read(run: IRun<T>): IElementPriorityPair<T, number> {
+        let view: DataView = this._fill(run, RECORD_HEADER);
+        let offset: number = run.position - run.chunkStart;
+        let priority: number = view.getFloat64(offset, true);
+        let length: number = view.getUint32(offset + 8, true);
+        this._fill(run, RECORD_HEADER + length);
+        offset = run.position - run.chunkStart + RECORD_HEADER;
+        let element: T = this._codec.decode(run.chunk.subarray(offset, offset + length));
+        run.position += RECORD_HEADER + length;
+        run.remaining--;
+        return { element: element, priority: priority };
+    }
+
+    /**
+     * Writes sorted sequence to new run file. The run isn't added to {@link _runs}, so caller commits it
+     * only after the whole sequence is written, failed write deletes partial file.
+     *
+     * @param source - sequence of elements in priority order, it must not change the queue
+     * @returns written run with its head read
+     */
+    private _writeRun(source: Iterable<IElementPriorityPair<T, number>>): IRun<T> {
+        if(this._directory === undefined)
+            this._directory = fs.mkdtempSync(path.join(this._base_directory, 'priorityqueue-'));
+        let file: string = path.join(this._directory, `run-${this._run_counter++}.bin`);
+        let fd: number = fs.openSync(file, 'w+');
+        let out: Uint8Array = new Uint8Array(this._chunk_size);
+        let view: DataView = new DataView(out.buffer);
+        let used: number = 0;
+        let count: number = 0;
+        try {
+            for(let pair of source) {
+                let bytes: Uint8Array = this._codec.encode(pair.element);
+                let length: number = RECORD_HEADER + bytes.length;
+                if(used + length > out.length) {
+                    fs.writeSync(fd, out, 0, used);
+                    used = 0;
+                    if(length > out.length) {
+                        out = new Uint8Array(length);
+                        view = new DataView(out.buffer);
+                    }
+                }
+                view.setFloat64(used, pair.priority, true);
+                view.setUint32(used + 8, bytes.length, true);
+                out.set(bytes, used + RECORD_HEADER);
+                used += length;
+                count++;
+            }
+            fs.writeSync(fd, out, 0, used);
+            let run = { path: file, fd: fd, position: 0, remaining: count, chunk: new Uint8Array(0), chunkStart: 0, chunkEnd: 0 } as IRun<T>;
+            run.head = this._read(run);
+            return run;
+        } catch(e) {
+            fs.closeSync(fd);
+            fs.unlinkSync(file);
+            throw e;
+        }
+    }
+
+    /**
+     * Closes and deletes file of run.
+     *
+     * @param run - exhausted or dropped run
+     */
+    private _deleteRun(run: IRun<T>) {
+        fs.closeSync(run.fd);
+        fs.unlinkSync(run.path);
+    }
+
+    /**
+     * Removes head of the minimal run, reading the next record or deleting exhausted run.
+     */
+    private _advance() {
+        let run: IRun<T> = this._runs.peek();
+        if(run.remaining == 0) {
+            this._runs.dequeue();
+            this._deleteRun(run);
+        } else {
+            run.head = this._read(run);
+            this._runs.dequeueEnqueue(run, run.head.priority);
+        }
+    }
+
+    /**
+     * Enumerates elements of runs in priority order (k-way merge) by own cursors,
+     * so the runs aren't changed.
+     *
+     * @param runs - merged runs
+     */
+    private *_mergeRuns(runs: Array<IRun<T>>): Generator<IElementPriorityPair<T, number>> {
+        let cursors = new PriorityQueue<IRun<T>>([], 4);
+        runs.forEach(run => cursors.enqueue({ ...run, chunk: new Uint8Array(0), chunkStart: 0, chunkEnd: 0 }, run.head.priority));
+        while(cursors.count > 0) {
+            let cursor: IRun<T> = cursors.peek();
+            yield cursor.head;
+            if(cursor.remaining == 0) {
+                cursors.dequeue();
+            } else {
+                cursor.head = this._read(cursor);
+                cursors.dequeueEnqueue(cursor, cursor.head.priority);
+            }
+        }
+    }
+
+    /**
+     * Spills in-memory buffer to disk and merges the smaller half of runs if there are too many of them.
+     * Buffer and runs are changed only after new run is written, so failed write leaves the queue intact.
+     */
+    private _spill() {
+        let entries: Array<IElementPriorityPair<T, number>> = this._buffer.unorderedEntries;
+        entries.sort((a, b) => a.priority < b.priority ? -1 : b.priority < a.priority ? 1 : 0);
+        let spilled: IRun<T> = this._writeRun(entries);
+        this._buffer.clear();
+        this._runs.enqueue(spilled, spilled.head.priority);
+        if(this._runs.count < this._max_runs)
+            return;
+        let merged: Array<IRun<T>> = this._runs.unorderedItems.sort((a, b) => a.remaining - b.remaining)
+            .slice(0, Math.floor(this._max_runs / 2) + 1);
+        let run: IRun<T> = this._writeRun(this._mergeRuns(merged));
+        this._runs.removeWhere(item => merged.includes(item));
+        merged.forEach(item => this._deleteRun(item));
+        this._runs.enqueue(run, run.head.priority);
+    }
+
+    /**
+     * Returns whether the minimal element is at head of some run rather than in memory.
+     */
+    private _minOnDisk(): boolean {
+        return this._runs.count > 0 &&
+            (this._buffer.count == 0 || this._runs.peek().head.priority < this._buffer.peekEntry().priority);
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.clear
+     *
+     * @remarks Run files are deleted, but temp directory is kept until {@link close}.
+     */
+    public clear(): void {
+        this._runs.unorderedItems.forEach(run => this._deleteRun(run));
+        this._runs.clear();
+        this._buffer.clear();
+        this._size = 0;
+    }
+
+    /**
+     * Removes all elements, deletes temp files and directory. Further operations except
+     * {@link count} throw {@link InvalidOperationException}.
+     */
+    public close(): void {
+        if(this._closed)
+            return;
+        this.clear();
+        if(this._directory !== undefined)
+            fs.rmdirSync(this._directory);
+        this._directory = undefined;
+        this._closed = true;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.enqueue
+     *
+     * @throws {@link ArgumentException}
+     * This exception is thrown if priority isn't a number.
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue is closed.
+     */
+    public enqueue(elem: T, priority: number): void {
+        this._checkOpen();
+        this._checkPriority(priority);
+        if(this._buffer.count >= this._memory_limit)
+            this._spill();
+        this._buffer.enqueue(elem, priority);
+        this._size++;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.dequeue
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements or closed.
+     */
+    public dequeue(): T {
+        this._checkOpen();
+        if(this._size == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        this._size--;
+        if(this._minOnDisk()) {
+            let element: T = this._runs.peek().head.element;
+            this._advance();
+            return element;
+        }
+        return this._buffer.dequeue();
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.peek
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements or closed.
+     */
+    public peek(): T {
+        return this.peekEntry().element;
+    }
+
+    /**
+     * Returns the extreme (minimal) element with its priority from the queue without removing it.
+     *
+     * @returns The extreme (minimal) element with its priority
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements or closed.
+     */
+    public peekEntry(): IElementPriorityPair<T, number> {
+        this._checkOpen();
+        if(this._size == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        return this._minOnDisk() ? this._runs.peek().head : this._buffer.peekEntry();
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.enqueueDequeue
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements or closed.
+     *
+     * @throws {@link ArgumentException}
+     * This exception is thrown if priority isn't a number.
+     */
+    public enqueueDequeue(elem: T, priority: number): T {
+        this._checkPriority(priority);
+        if(!(this.peekEntry().priority < priority))
+            return elem;
+        let result: T = this.dequeue();
+        this.enqueue(elem, priority);
+        return result;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.dequeueEnqueue
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements or closed.
+     *
+     * @throws {@link ArgumentException}
+     * This exception is thrown if priority isn't a number.
+     */
+    public dequeueEnqueue(elem: T, priority: number): T {
+        this._checkPriority(priority);
+        let result: T = this.dequeue();
+        this.enqueue(elem, priority);
+        return result;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.enqueueRange
+     *
+     * @throws {@link ArgumentException}
+     * This exception is thrown if some priority isn't a number, no element is added then.
+     */
+    public enqueueRange(range: Array<IElementPriorityPair<T, number>>): void {
+        this._checkOpen();
+        range.forEach(pair => this._checkPriority(pair.priority));
+        range.forEach(pair => this.enqueue(pair.element, pair.priority));
+    }
+}
+
+export { IExternalPriorityQueueOptions }
\ No newline at end of file
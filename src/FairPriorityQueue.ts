@@ -0,0 +1,509 @@
+import { ArgumentException } from "./ArgumentException";
+import { checkPriority } from "./checkPriority";
+import { FairSchedulingPolicy, IFairPriorityQueueOptions } from "./IFairPriorityQueueOptions";
+import { IElementPriorityPair } from "./IElementPriorityPair";
+import { InvalidOperationException } from "./InvalidOperationException";
+import { IPriorityQueue } from "./IPriorityQueue";
+import { PriorityQueue } from "./PriorityQueue";
+
+/**
+ * Tenant with its own queue and round-robin state.
+ */
+interface ITenantState<TTenant, T, TPriority> {
+    tenant: TTenant;
+    queue: PriorityQueue<T, TPriority>;
+    weight: number;
+
+    /**
+     * Unspent credit, it's carried between turns while tenant has elements.
+     */
+    deficit: number;
+
+    /**
+     * Whether tenant already got credit of current turn.
+     */
+    inTurn: boolean;
+}
+
+/**
+ * Multi-tenant fair queue composed of per-tenant {@link PriorityQueue}s. Elements are ordered by priority
+ * within tenant, tenant to dequeue from is chosen by weighted or deficit round-robin, so throughput
+ * is shared across tenants in proportion to their weights.
+ *
+ * @typeParam TTenant - Specifies the type of tenant keys.
+ * @typeParam T - Specifies the type of elements in the queue.
+ * @typeParam TPriority - Specifies the type of priority associated with enqueued elements (default `number`).
+ *
+ * @remarks Methods of {@link IPriorityQueue} act on the combined view: {@link peek} returns the element
+ * {@link dequeue} would return, which is the extreme element of the tenant in turn rather than the global
+ * one. Only tenants with elements take part in round-robin, tenant that runs out of elements loses
+ * its unspent credit and joins the end of the round on next enqueue.
+ */
+export class FairPriorityQueue<TTenant, T, TPriority = number> implements IPriorityQueue<T, TPriority> {
+
+    /**
+     * Selector of tenant of element.
+     */
+    private readonly _tenant_of: (element: T) => TTenant;
+
+    /**
+     * Number of child nodes of per-tenant queues.
+     */
+    private readonly _k: number;
+
+    /**
+     * Options of per-tenant queues.
+     */
+    private readonly _options: IFairPriorityQueueOptions<T, TPriority>;
+
+    /**
+     * Policy of choosing tenant.
+     */
+    private readonly _policy: FairSchedulingPolicy;
+
+    /**
+     * Credit of tenant with weight `1` per turn.
+     */
+    private readonly _quantum: number;
+
+    /**
+     * Cost of element in deficit round-robin.
+     */
+    private readonly _cost: (element: T) => number;
+
+    /**
+     * Weight of tenants added without weight.
+     */
+    private readonly _default_weight: number;
+
+    /**
+     * Whether enqueue adds unknown tenants.
+     */
+    private readonly _auto_add: boolean;
+
+    /**
+     * All tenants by their keys.
+     */
+    private _tenants: Map<TTenant, ITenantState<TTenant, T, TPriority>> = new Map();
+
+    /**
+     * Tenants with elements in round-robin order.
+     */
+    private _active: Array<ITenantState<TTenant, T, TPriority>> = [];
+
+    /**
+     * Index of tenant in turn in {@link _active}.
+     */
+    private _cursor: number = 0;
+
+    /**
+     * Count elements of all tenants.
+     */
+    private _size: number = 0;
+
+    /**
+     * Gets the number of elements of all tenants contained in the queue
+     */
+    public get count(): number {
+        return this._size;
+    }
+
+    /**
+     * Gets a collection that enumerates the elements of all tenants in an unordered manner.
+     */
+    public get unorderedItems(): Array<T> {
+        let result: Array<T> = [];
+        this._tenants.forEach(state => result.push(...state.queue.unorderedItems));
+        return result;
+    }
+
+    /**
+     * Gets keys of all tenants, including ones without elements.
+     */
+    public get tenants(): Array<TTenant> {
+        return Array.from(this._tenants.keys());
+    }
+
+    /**
+     * Construcor of fair priority queue.
+     *
+     * @param tenantOf - selector of tenant of element
+     * @param k - number of child nodes of per-tenant queues (recommended 4 or 8)
+     * @param options - options of per-tenant queues and round-robin
+     *
+     * @throws {@link ArgumentException}
+     * This exception is thrown if quantum or default weight isn't positive.
+     */
+    constructor(tenantOf: (element: T) => TTenant, k: number = 4, options: IFairPriorityQueueOptions<T, TPriority> = {}) {
+        this._tenant_of = tenantOf;
+        this._k = k;
+        this._options = options;
+        this._policy = options.policy ?? 'weighted';
+        this._quantum = options.quantum ?? 1;
+        this._cost = options.cost ?? (() => 1);
+        this._default_weight = options.defaultWeight ?? 1;
+        this._auto_add = options.autoAddTenants ?? true;
+        this._checkWeight(this._default_weight);
+        if(!(this._quantum > 0 && this._quantum < Infinity))
+            throw new ArgumentException(`Quantum must be positive finite number: ${this._quantum}.`);
+    }
+
+    /**
+     * Throws if weight isn't positive finite number.
+     *
+     * @param weight - weight to check
+     */
+    private _checkWeight(weight: number) {
+        if(!(weight > 0 && weight < Infinity))
+            throw new ArgumentException(`Weight must be positive finite number: ${weight}.`);
+    }
+
+    /**
+     * Checks priority in strict mode the same way as per-tenant queues do, so bulk operations
+     * may reject invalid priority before any element is added.
+     *
+     * @param priority - checked priority
+     */
+    private _checkPriority(priority: TPriority) {
+        if(this._options.strict)
+            checkPriority(priority, this._options.comparer);
+    }
+
+    /**
+     * Returns state of known tenant.
+     *
+     * @param tenant - key of tenant
+     * @returns state of tenant
+     */
+    private _stateOf(tenant: TTenant): ITenantState<TTenant, T, TPriority> {
+        let state = this._tenants.get(tenant);
+        if(state === undefined)
+            throw new InvalidOperationException(`Unknown tenant: ${String(tenant)}.`);
+        return state;
+    }
+
+    /**
+     * Checks tenant and cost of element and its priority without changing the queue.
+     *
+     * @param elem - element to enqueue
+     * @param priority - priority of element
+     * @returns tenant of element, it may be not added yet if `autoAddTenants` is on
+     */
+    private _checkElement(elem: T, priority: TPriority): TTenant {
+        let tenant: TTenant = this._tenant_of(elem);
+        if(!this._auto_add)
+            this._stateOf(tenant);
+        let cost: number = this._costOf(elem);
+        if(!(cost >= 0 && cost < Infinity))
+            throw new ArgumentException(`Cost must be non-negative finite number: ${cost}.`);
+        this._checkPriority(priority);
+        return tenant;
+    }
+
+    /**
+     * Returns cost of element according to policy.
+     *
+     * @param elem - element of some tenant
+     * @returns cost of element
+     */
+    private _costOf(elem: T): number {
+        return this._policy == 'deficit' ? this._cost(elem) : 1;
+    }
+
+    /**
+     * Adds tenant to the end of round-robin.
+     *
+     * @param state - tenant that got its first element
+     */
+    private _activate(state: ITenantState<TTenant, T, TPriority>) {
+        if(this._active.length == 0) {
+            this._active.push(state);
+            this._cursor = 0;
+        } else {
+            this._active.splice(this._cursor, 0, state);
+            this._cursor++;
+        }
+    }
+
+    /**
+     * Removes tenant from round-robin and drops its unspent credit.
+     *
+     * @param state - tenant that ran out of elements
+     */
+    private _deactivate(state: ITenantState<TTenant, T, TPriority>) {
+        let index: number = this._active.indexOf(state);
+        this._active.splice(index, 1);
+        if(index < this._cursor)
+            this._cursor--;
+        if(this._cursor >= this._active.length)
+            this._cursor = 0;
+        state.deficit = 0;
+        state.inTurn = false;
+    }
+
+    /**
+     * Moves round-robin to the tenant that may pay for its extreme element. Repeated calls without
+     * dequeue return the same tenant.
+     *
+     * @returns tenant to dequeue from
+     */
+    private _ready(): ITenantState<TTenant, T, TPriority> {
+        while(true) {
+            let state = this._active[this._cursor];
+            if(!state.inTurn) {
+                state.deficit += this._quantum * state.weight;
+                state.inTurn = true;
+            }
+            if(this._costOf(state.queue.peek()) <= state.deficit)
+                return state;
+            state.inTurn = false;
+            this._cursor = (this._cursor + 1) % this._active.length;
+        }
+    }
+
+    /**
+     * Finds the tenant that {@link _ready} would move round-robin to, without changing credits and cursor.
+     *
+     * @returns tenant to dequeue from
+     */
+    private _nextReady(): ITenantState<TTenant, T, TPriority> {
+        let credits: Map<ITenantState<TTenant, T, TPriority>, number> = new Map();
+        let cursor: number = this._cursor;
+
+        // only tenant at cursor may already have credit of current turn
+        let in_turn: boolean = this._active[cursor].inTurn;
+        while(true) {
+            let state = this._active[cursor];
+            let deficit: number = credits.get(state) ?? state.deficit;
+            if(!in_turn)
+                deficit += this._quantum * state.weight;
+            if(this._costOf(state.queue.peek()) <= deficit)
+                return state;
+            credits.set(state, deficit);
+            in_turn = false;
+            cursor = (cursor + 1) % this._active.length;
+        }
+    }
+
+    /**
+     * Adds tenant without elements.
+     *
+     * @param tenant - key of tenant
+     * @param weight - share of throughput of tenant (default `defaultWeight` option)
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if tenant already exists.
+     *
+     * @throws {@link ArgumentException}
+     * This exception is thrown if weight isn't positive.
+     */
+    public addTenant(tenant: TTenant, weight: number = this._default_weight): void {
+        if(this._tenants.has(tenant))
+            throw new InvalidOperationException(`Tenant already exists: ${String(tenant)}.`);
+        this._checkWeight(weight);
+        this._tenants.set(tenant, {
+            tenant: tenant,
+            queue: new PriorityQueue<T, TPriority>([], this._k, this._options),
+            weight: weight,
+            deficit: 0,
+            inTurn: false
+        });
+    }
+
+    /**
+     * Removes tenant with all its elements.
+     *
+     * @param tenant - key of tenant
+     * @returns removed elements of tenant in priority order
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if tenant is unknown.
+     */
+    public removeTenant(tenant: TTenant): Array<T> {
+        let state = this._stateOf(tenant);
+        if(state.queue.count > 0)
+            this._deactivate(state);
+        this._tenants.delete(tenant);
+        this._size -= state.queue.count;
+        return Array.from(state.queue.drain());
+    }
+
+    /**
+     * Checks whether tenant is known.
+     *
+     * @param tenant - key of tenant
+     * @returns `true` if tenant was added and not removed
+     */
+    public hasTenant(tenant: TTenant): boolean {
+        return this._tenants.has(tenant);
+    }
+
+    /**
+     * Changes weight of tenant. New weight applies from next turn of tenant.
+     *
+     * @param tenant - key of tenant
+     * @param weight - share of throughput of tenant
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if tenant is unknown.
+     *
+     * @throws {@link ArgumentException}
+     * This exception is thrown if weight isn't positive.
+     */
+    public setWeight(tenant: TTenant, weight: number): void {
+        let state = this._stateOf(tenant);
+        this._checkWeight(weight);
+        state.weight = weight;
+    }
+
+    /**
+     * Returns weight of tenant.
+     *
+     * @param tenant - key of tenant
+     * @returns share of throughput of tenant
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if tenant is unknown.
+     */
+    public weightOf(tenant: TTenant): number {
+        return this._stateOf(tenant).weight;
+    }
+
+    /**
+     * Returns number of elements of tenant.
+     *
+     * @param tenant - key of tenant
+     * @returns count of elements of tenant
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if tenant is unknown.
+     */
+    public countOf(tenant: TTenant): number {
+        return this._stateOf(tenant).queue.count;
+    }
+
+    /**
+     * Removes all elements of all tenants. Tenants and their weights are kept.
+     */
+    public clear(): void {
+        this._tenants.forEach(state => {
+            state.queue.clear();
+            state.deficit = 0;
+            state.inTurn = false;
+        });
+        this._active = [];
+        this._cursor = 0;
+        this._size = 0;
+    }
+
+    /**
+     * Adds the specified element with associated priority to the queue of its tenant
+     *
+     * @param elem - specified element
+     * @param priority - his priority within tenant
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if tenant is unknown and `autoAddTenants` is off.
+     *
+     * @throws {@link ArgumentException}
+     * This exception is thrown if cost of element or, in strict mode, priority is invalid.
+     */
+    public enqueue(elem: T, priority: TPriority): void {
+        let tenant: TTenant = this._checkElement(elem, priority);
+        if(!this._tenants.has(tenant))
+            this.addTenant(tenant);
+        let state = this._stateOf(tenant);
+        state.queue.enqueue(elem, priority);
+        this._size++;
+        if(state.queue.count == 1)
+            this._activate(state);
+    }
+
+    /**
+     * Removes and returns the extreme (minimal) element of the tenant in turn
+     *
+     * @returns The extreme (minimal) element of the tenant in turn
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public dequeue(): T {
+        if(this._size == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        let state = this._ready();
+        state.deficit -= this._costOf(state.queue.peek());
+        let result: T = state.queue.dequeue();
+        this._size--;
+        if(state.queue.count == 0)
+            this._deactivate(state);
+        return result;
+    }
+
+    /**
+     * Returns the extreme (minimal) element of the tenant in turn without removing it
+     *
+     * @returns The element that {@link dequeue} would return
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public peek(): T {
+        if(this._size == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        return this._nextReady().queue.peek();
+    }
+
+    /**
+     * Adds the specified element to the queue of its tenant, then removes and returns the extreme element
+     * of the tenant in turn. Unlike {@link PriorityQueue.enqueueDequeue} it never short-circuits on the
+     * combined view: result may be element of another tenant, then `elem` stays in the queue.
+     *
+     * @param elem - specified element
+     * @param priority - his priority within tenant
+     * @returns The extreme (minimal) element of the tenant in turn after enqueue
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements or tenant is unknown and `autoAddTenants` is off.
+     *
+     * @throws {@link ArgumentException}
+     * This exception is thrown if cost of element or, in strict mode, priority is invalid.
+     */
+    public enqueueDequeue(elem: T, priority: TPriority): T {
+        if(this._size == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        this.enqueue(elem, priority);
+        return this.dequeue();
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.dequeueEnqueue
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements or tenant is unknown and `autoAddTenants` is off.
+     *
+     * @throws {@link ArgumentException}
+     * This exception is thrown if cost of element or, in strict mode, priority is invalid, nothing is dequeued then.
+     */
+    public dequeueEnqueue(elem: T, priority: TPriority): T {
+        if(this._size == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        this._checkElement(elem, priority);
+        let result: T = this.dequeue();
+        this.enqueue(elem, priority);
+        return result;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.enqueueRange
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if some tenant is unknown and `autoAddTenants` is off, no element is added then.
+     *
+     * @throws {@link ArgumentException}
+     * This exception is thrown if some cost of element or, in strict mode, priority is invalid, no element is added then.
+     */
+    public enqueueRange(range: Array<IElementPriorityPair<T, TPriority>>): void {
+        range.forEach(pair => this._checkElement(pair.element, pair.priority));
+        range.forEach(pair => this.enqueue(pair.element, pair.priority));
+    }
+}
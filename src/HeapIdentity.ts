@@ -0,0 +1,29 @@
+/**
+ * Identity of heap that owns nodes. On meld identity of absorbed heap is forwarded
+ * to identity of absorbing one, so ownership of nodes is checked without touching them.
+ */
+export class HeapIdentity {
+
+    /**
+     * Identity of heap this one was melded into, `null` while heap is alive.
+     */
+    forward: HeapIdentity | null = null;
+
+    /**
+     * Resolves actual identity with path compression.
+     *
+     * @returns identity of heap that owns nodes now
+     */
+    resolve(): HeapIdentity {
+        let root: HeapIdentity = this;
+        while(root.forward !== null)
+            root = root.forward;
+        let current: HeapIdentity = this;
+        while(current.forward !== null && current.forward !== root) {
+            let next: HeapIdentity = current.forward;
+            current.forward = root;
+            current = next;
+        }
+        return root;
+    }
+}
@@ -0,0 +1,43 @@
+import { AgingPolicy } from "./AgingPolicy";
+
+/**
+ * Options of {@link AgingPriorityQueue} construction.
+ */
+export interface IAgingPriorityQueueOptions {
+
+    /**
+     * Aging policy, e.g. {@link linearAging} or {@link stepAging}.
+     * 
+     * @defaultValue `linearAging(1)`
+     */
+    policy?: AgingPolicy;
+
+    /**
+     * Measure of age: milliseconds of clock or number of enqueue and dequeue operations.
+     * 
+     * @defaultValue `'time'`
+     */
+    ageBy?: 'time' | 'operations';
+
+    /**
+     * Source of current time in milliseconds. Replace it with fake timer in tests.
+     * 
+     * @defaultValue `Date.now`
+     */
+    clock?: () => number;
+
+    /**
+     * Maximum age between re-keys of all entries. Queue is also re-keyed after as many operations
+     * as there are entries in it, so re-keying costs amortized O(log n) per operation.
+     * 
+     * @defaultValue `Infinity`
+     */
+    rekeyInterval?: number;
+
+    /**
+     * Number of elements the queue can hold without reallocation of buffers.
+     * 
+     * @defaultValue `16`
+     */
+    initialCapacity?: number;
+}
@@ -0,0 +1,16 @@
+import { IPriorityQueueOptions } from "./IPriorityQueueOptions";
+
+/**
+ * Options of {@link AsyncPriorityQueue} construction.
+ * 
+ * @typeParam TPriority - Specifies the type of priority associated with enqueued elements.
+ */
+export interface IAsyncPriorityQueueOptions<TPriority> extends IPriorityQueueOptions<TPriority> {
+
+    /**
+     * Number of elements in the queue at which {@link AsyncPriorityQueue.enqueueAsync} starts to wait.
+     * 
+     * @defaultValue `Infinity`
+     */
+    highWaterMark?: number;
+}
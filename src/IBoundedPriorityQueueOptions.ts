@@ -0,0 +1,15 @@
+import { IPriorityQueueOptions } from "./IPriorityQueueOptions";
+
+/**
+ * Options of {@link BoundedPriorityQueue} construction.
+ * 
+ * @typeParam T - Specifies the type of elements in the queue. 
+ * @typeParam TPriority - Specifies the type of priority associated with enqueued elements.
+ */
+export interface IBoundedPriorityQueueOptions<T, TPriority> extends IPriorityQueueOptions<TPriority> {
+
+    /**
+     * Callback that is called for each evicted element, including rejected enqueued ones.
+     */
+    onEvict?: (element: T, priority: TPriority) => void;
+}
@@ -0,0 +1,27 @@
+/**
+ * Options of {@link DelayQueue} construction.
+ */
+export interface IDelayQueueOptions {
+
+    /**
+     * Source of current time in milliseconds. Replace it with fake timer in tests.
+     * 
+     * @defaultValue `Date.now`
+     */
+    clock?: () => number;
+
+    /**
+     * Default time to live of elements in milliseconds, counted from their ready time.
+     * Elements that aren't polled in time are silently dropped.
+     * 
+     * @defaultValue `Infinity`
+     */
+    ttl?: number;
+
+    /**
+     * Number of elements the queue can hold without reallocation of buffers.
+     * 
+     * @defaultValue `16`
+     */
+    initialCapacity?: number;
+}
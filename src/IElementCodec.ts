@@ -0,0 +1,37 @@
+/**
+ * Interface of codec that converts elements of queue to bytes and back.
+ * Used by binary serialization of queues.
+ * 
+ * @typeParam T - Specifies the type of elements in the queue. 
+ */
+export interface IElementCodec<T> {
+
+    /**
+     * Converts element to bytes
+     * 
+     * @param elem - element to encode
+     * @returns bytes of element
+     */
+    encode(elem: T): Uint8Array;
+
+    /**
+     * Converts bytes back to element
+     * 
+     * @param bytes - bytes returned by {@link encode}
+     * @returns decoded element
+     */
+    decode(bytes: Uint8Array): T;
+}
+
+/**
+ * Default codec that stores elements as UTF-8 encoded JSON. Decoded value is whatever JSON holds,
+ * so users of codec cast it to type of their elements.
+ */
+export const jsonElementCodec: IElementCodec<unknown> = {
+    encode(elem: unknown): Uint8Array {
+        return new TextEncoder().encode(JSON.stringify(elem));
+    },
+    decode(bytes: Uint8Array): unknown {
+        return JSON.parse(new TextDecoder().decode(bytes));
+    }
+};
@@ -2,8 +2,9 @@
  * Interface that carry value-priority pair
  * 
  * @typeParam T - Specifies the type of elements in the queue. 
+ * @typeParam TPriority - Specifies the type of priority associated with enqueued elements.
  */
-export interface IElementPriorityPair<T> {
+export interface IElementPriorityPair<T, TPriority = number> {
     element: T;
-    priority: number;
-}
\ No newline at end of file
+    priority: TPriority;
+}
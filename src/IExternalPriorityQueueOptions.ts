@@ -0,0 +1,45 @@
+import { IElementCodec } from "./IElementCodec";
+
+/**
+ * Options of {@link ExternalPriorityQueue} construction.
+ * 
+ * @typeParam T - Specifies the type of elements in the queue.
+ */
+export interface IExternalPriorityQueueOptions<T> {
+
+    /**
+     * Maximum number of elements kept in memory. When buffer is full, its elements are spilled
+     * to temp file as sorted run.
+     * 
+     * @defaultValue `1048576`
+     */
+    memoryLimit?: number;
+
+    /**
+     * Maximum number of runs on disk. When it's reached, the smaller half of runs is merged into one.
+     * 
+     * @defaultValue `64`
+     */
+    maxRuns?: number;
+
+    /**
+     * Directory where temp directory of the queue is created.
+     * 
+     * @defaultValue `os.tmpdir()`
+     */
+    directory?: string;
+
+    /**
+     * Codec of elements in run files.
+     * 
+     * @defaultValue {@link jsonElementCodec}
+     */
+    elementCodec?: IElementCodec<T>;
+
+    /**
+     * Size of read and write buffers of run files in bytes.
+     * 
+     * @defaultValue `65536`
+     */
+    chunkSize?: number;
+}
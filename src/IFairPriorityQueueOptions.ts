@@ -0,0 +1,53 @@
+import { IPriorityQueueOptions } from "./IPriorityQueueOptions";
+
+/**
+ * Policy of choosing tenant in {@link FairPriorityQueue}:
+ * - `'weighted'` - weighted round-robin, tenant gets up to `weight` dequeues per turn
+ * - `'deficit'` - deficit round-robin, tenant gets `quantum * weight` credit per turn and pays `cost` of each element
+ */
+export type FairSchedulingPolicy = 'weighted' | 'deficit';
+
+/**
+ * Options of {@link FairPriorityQueue} construction.
+ * 
+ * @typeParam T - Specifies the type of elements in the queue.
+ * @typeParam TPriority - Specifies the type of priority associated with enqueued elements.
+ */
+export interface IFairPriorityQueueOptions<T, TPriority> extends IPriorityQueueOptions<TPriority> {
+
+    /**
+     * Policy of choosing tenant to dequeue from.
+     * 
+     * @defaultValue `'weighted'`
+     */
+    policy?: FairSchedulingPolicy;
+
+    /**
+     * Credit of tenant with weight `1` per turn in deficit round-robin.
+     * 
+     * @defaultValue `1`
+     */
+    quantum?: number;
+
+    /**
+     * Cost of element in deficit round-robin, e.g. size of request.
+     * 
+     * @defaultValue `() => 1`
+     */
+    cost?: (element: T) => number;
+
+    /**
+     * Weight of tenants added implicitly by enqueue or by {@link FairPriorityQueue.addTenant} without weight.
+     * 
+     * @defaultValue `1`
+     */
+    defaultWeight?: number;
+
+    /**
+     * Whether enqueue of element of unknown tenant adds the tenant with default weight.
+     * Otherwise it throws {@link InvalidOperationException}.
+     * 
+     * @defaultValue `true`
+     */
+    autoAddTenants?: boolean;
+}
@@ -0,0 +1,12 @@
+import { IElementPriorityPair } from "./IElementPriorityPair";
+
+/**
+ * Interface that carry key-value-priority entry of {@link KeyedPriorityQueue}
+ * 
+ * @typeParam K - Specifies the type of keys in the queue.
+ * @typeParam T - Specifies the type of elements in the queue. 
+ * @typeParam TPriority - Specifies the type of priority associated with enqueued elements.
+ */
+export interface IKeyedElementPriorityPair<K, T, TPriority = number> extends IElementPriorityPair<T, TPriority> {
+    key: K;
+}
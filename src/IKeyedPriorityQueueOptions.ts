@@ -0,0 +1,24 @@
+import { IPriorityQueueOptions } from "./IPriorityQueueOptions";
+
+/**
+ * Policy of {@link KeyedPriorityQueue.set} for key that is already in the queue:
+ * - `'replace'` - element and priority are always replaced
+ * - `'keepLower'` - entry with lower priority (dequeued earlier) is kept
+ * - `'keepHigher'` - entry with higher priority (dequeued later) is kept
+ */
+export type KeyUpdatePolicy = 'replace' | 'keepLower' | 'keepHigher';
+
+/**
+ * Options of {@link KeyedPriorityQueue} construction.
+ * 
+ * @typeParam TPriority - Specifies the type of priority associated with enqueued elements.
+ */
+export interface IKeyedPriorityQueueOptions<TPriority> extends IPriorityQueueOptions<TPriority> {
+
+    /**
+     * Policy of re-insert of key that is already in the queue.
+     * 
+     * @defaultValue `'replace'`
+     */
+    updatePolicy?: KeyUpdatePolicy;
+}
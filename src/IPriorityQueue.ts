@@ -3,11 +3,12 @@ import { IElementPriorityPair } from "./IElementPriorityPair";
 /**
  * C#-like Priority Queue interface
  * Class that implemets those interface must represent a collection of items 
- * that have a value and a real-valued priority. On dequeue, the item with the extreme (minimal) priority value is removed.
+ * that have a value and a priority. On dequeue, the item with the extreme (minimal) priority value is removed.
  * 
  * @typeParam T - Specifies the type of elements in the queue. 
+ * @typeParam TPriority - Specifies the type of priority associated with enqueued elements.
  */
-export interface IPriorityQueue<T> {
+export interface IPriorityQueue<T, TPriority = number> {
 
     /**
      * Gets the number of elements contained in the queue
@@ -30,7 +31,7 @@ export interface IPriorityQueue<T> {
      * @param elem - specified element
      * @param priority - his priority
      */
-    enqueue(elem: T, priority: number): void;
+    enqueue(elem: T, priority: TPriority): void;
 
     /**
      * Removes and returns the extreme (minimal) element from the queue
@@ -54,8 +55,11 @@ export interface IPriorityQueue<T> {
      * @param priority - his priority
      * 
      * @returns The extreme (minimal) element
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
      */
-    enqueueDequeue(elem: T, priority: number): T;
+    enqueueDequeue(elem: T, priority: TPriority): T;
 
     /**
      * Removes the extreme (minimal) element and immediately adds the specified element 
@@ -66,12 +70,12 @@ export interface IPriorityQueue<T> {
      * 
      * @returns The extreme (minimal) element
      */
-    dequeueEnqueue(elem: T, priority: number): T;
+    dequeueEnqueue(elem: T, priority: TPriority): T;
 
     /**
      * Enqueues a sequence of elements pairs to the queue, all associated with the specified priority.
      * 
      * @param range - sequence of elements
      */
-    enqueueRange(range: Array<IElementPriorityPair<T>>): void;
+    enqueueRange(range: Array<IElementPriorityPair<T, TPriority>>): void;
 }
\ No newline at end of file
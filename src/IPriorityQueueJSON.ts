@@ -0,0 +1,35 @@
+import { IElementPriorityPair } from "./IElementPriorityPair";
+
+/**
+ * JSON snapshot of {@link PriorityQueue} returned by {@link PriorityQueue.toJSON}.
+ * 
+ * @typeParam T - Specifies the type of elements in the queue. 
+ * @typeParam TPriority - Specifies the type of priority associated with enqueued elements.
+ */
+export interface IPriorityQueueJSON<T, TPriority = number> {
+
+    /**
+     * Version of snapshot format
+     */
+    version: number;
+
+    /**
+     * Number of child nodes
+     */
+    k: number;
+
+    /**
+     * Stable mode of queue
+     */
+    stable: boolean;
+
+    /**
+     * Last issued sequence number
+     */
+    sequence: number;
+
+    /**
+     * Nodes of heap in heap order with sequence numbers of elements
+     */
+    entries: Array<IElementPriorityPair<T, TPriority> & { sequence: number }>;
+}
@@ -0,0 +1,51 @@
+import { Comparer } from "./Comparer";
+
+/**
+ * Options of {@link PriorityQueue} construction.
+ * 
+ * @typeParam TPriority - Specifies the type of priority associated with enqueued elements.
+ */
+export interface IPriorityQueueOptions<TPriority> {
+
+    /**
+     * Comparer of priorities. If omitted, priorities compared by native `<` operator.
+     */
+    comparer?: Comparer<TPriority>;
+
+    /**
+     * Stable mode: elements with equal priorities are dequeued in order of insertion (FIFO).
+     * 
+     * @defaultValue `false`
+     */
+    stable?: boolean;
+
+    /**
+     * Number of elements the queue can hold without reallocation of buffers.
+     * 
+     * @defaultValue `16`
+     */
+    initialCapacity?: number;
+
+    /**
+     * Multiplier of capacity on growth of buffers. Buffers grow at least by 4 elements.
+     * 
+     * @defaultValue `2`
+     */
+    growthFactor?: number;
+
+    /**
+     * Strict mode: priorities are checked on insert and update, `NaN`, infinite, `undefined` and `null`
+     * priorities are rejected with {@link ArgumentException}. Without comparer priority must be a number.
+     * 
+     * @defaultValue `false`
+     */
+    strict?: boolean;
+
+    /**
+     * Metrics mode: operations are counted for {@link PriorityQueue.getStats}. Without it
+     * counters aren't allocated and methods aren't instrumented at all.
+     * 
+     * @defaultValue `false`
+     */
+    metrics?: boolean;
+}
@@ -0,0 +1,40 @@
+/**
+ * Operation metrics of {@link PriorityQueue} collected in `metrics` mode, see {@link PriorityQueue.getStats}.
+ */
+export interface IPriorityQueueStats {
+
+    /**
+     * Number of elements added to the queue.
+     */
+    enqueues: number;
+
+    /**
+     * Number of elements dequeued or removed from the queue.
+     */
+    dequeues: number;
+
+    /**
+     * Number of priority comparisons (calls of comparer or native `<` operator).
+     */
+    comparisons: number;
+
+    /**
+     * Number of swaps of heap nodes.
+     */
+    swaps: number;
+
+    /**
+     * Maximal number of elements in the queue.
+     */
+    peakSize: number;
+
+    /**
+     * Number of dequeued slots of elements that are not reused yet, see {@link PriorityQueue.shrink}.
+     */
+    wastedSlots: number;
+
+    /**
+     * Number of {@link PriorityQueue.shrink} calls, including calls by {@link PriorityQueue.trimExcess}.
+     */
+    shrinks: number;
+}
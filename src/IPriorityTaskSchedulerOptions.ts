@@ -0,0 +1,23 @@
+import { IPriorityQueueOptions } from "./IPriorityQueueOptions";
+
+/**
+ * Options of {@link PriorityTaskScheduler} construction.
+ * 
+ * @typeParam TPriority - Specifies the type of priority associated with scheduled tasks.
+ */
+export interface IPriorityTaskSchedulerOptions<TPriority> extends IPriorityQueueOptions<TPriority> {
+
+    /**
+     * Maximum number of simultaneously running tasks.
+     * 
+     * @defaultValue `1`
+     */
+    concurrency?: number;
+
+    /**
+     * Whether scheduler is created paused.
+     * 
+     * @defaultValue `false`
+     */
+    paused?: boolean;
+}
@@ -0,0 +1,20 @@
+/**
+ * Options of {@link SharedPriorityQueue} construction.
+ */
+export interface ISharedPriorityQueueOptions {
+
+    /**
+     * Number of child nodes (recommended 4 or 8).
+     * 
+     * @defaultValue `4`
+     */
+    k?: number;
+
+    /**
+     * Number of `Float64` values in element record. With `1` elements are plain numbers (e.g. ids),
+     * otherwise they are `Float64Array` records of that length.
+     * 
+     * @defaultValue `1`
+     */
+    recordSize?: number;
+}
@@ -0,0 +1,16 @@
+/**
+ * Options of task scheduled by {@link PriorityTaskScheduler.schedule}.
+ */
+export interface ITaskOptions {
+
+    /**
+     * Signal to cancel the task. Pending task is removed from the queue, running task
+     * gets abort of its own signal.
+     */
+    signal?: AbortSignal;
+
+    /**
+     * Time in milliseconds the task may run. Counted from start of the task, not from scheduling.
+     */
+    timeout?: number;
+}
@@ -1,20 +1,17 @@
+import { PriorityQueueException } from "./PriorityQueueException";
+
 /**
  * Special class exception primarly for throwing in situations when
  * dequeue / peek method calls on empty queue.
  */
-export class InvalidOperationException implements Error {
+export class InvalidOperationException extends PriorityQueueException {
     
     /**
      * Name of exception
      * 
-     * @defaultValue `InvalidOperationExcenption`
-     */
-    name: string = 'InvalidOperationExcenption';
-
-    /**
-     * Detailed information about exception.
+     * @defaultValue `InvalidOperationException`
      */
-    message: string;
+    name: string = 'InvalidOperationException';
 
     /**
      * Default constructor 
@@ -22,6 +19,6 @@ export class InvalidOperationException implements Error {
      * @param msg could provide some details about why exception happend
      */
     constructor(msg: string) {
-        this.message = msg;
+        super(msg);
     }
 }
\ No newline at end of file
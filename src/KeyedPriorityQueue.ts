@@ -0,0 +1,232 @@
+import { Comparer } from "./Comparer";
+import { IKeyedElementPriorityPair } from "./IKeyedElementPriorityPair";
+import { IKeyedPriorityQueueOptions, KeyUpdatePolicy } from "./IKeyedPriorityQueueOptions";
+import { InvalidOperationException } from "./InvalidOperationException";
+import { PriorityQueue } from "./PriorityQueue";
+import { QueueHandle } from "./QueueHandle";
+
+/**
+ * Entry of the index: key, element and priority stored in heap node with handle of the node.
+ */
+interface IKeyedEntry<K, T, TPriority> {
+    pair: IKeyedElementPriorityPair<K, T, TPriority>;
+    handle: QueueHandle;
+}
+
+/**
+ * Indexed priority queue that holds at most one element per key (node id, URL etc.).
+ * Re-insert of key updates priority of its element in place according to `updatePolicy` option.
+ * 
+ * @typeParam K - Specifies the type of keys in the queue, compared as keys of `Map`.
+ * @typeParam T - Specifies the type of elements in the queue. 
+ * @typeParam TPriority - Specifies the type of priority associated with enqueued elements (default `number`).
+ * 
+ * @remarks Built on handles of {@link PriorityQueue}, so {@link set}, {@link delete} and {@link dequeue}
+ * take O(log n) time and {@link has}, {@link get}, {@link priorityOf} take constant time.
+ */
+export class KeyedPriorityQueue<K, T, TPriority = number> implements Iterable<IKeyedElementPriorityPair<K, T, TPriority>> {
+
+    /**
+     * Underlying k-ary min-heap of keys with elements.
+     */
+    private readonly _queue: PriorityQueue<IKeyedElementPriorityPair<K, T, TPriority>, TPriority>;
+
+    /**
+     * Index of entries by keys.
+     */
+    private readonly _index: Map<K, IKeyedEntry<K, T, TPriority>> = new Map();
+
+    /**
+     * Policy of re-insert of key.
+     */
+    private readonly _update_policy: KeyUpdatePolicy;
+
+    /**
+     * Comparer of priorities. If it's `undefined`, priorities compared by native `<` operator.
+     */
+    private readonly _comparer: Comparer<TPriority> | undefined;
+
+    /**
+     * Gets the number of elements contained in the queue
+     */
+    public get count(): number {
+        return this._index.size;
+    }
+
+    /**
+     * Gets a collection that enumerates the elements of the queue in an unordered manner.
+     */
+    public get unorderedItems(): Array<T> {
+        return this._queue.unorderedItems.map(pair => pair.element);
+    }
+
+    /**
+     * Construcor of keyed priority queue.
+     * 
+     * @param k - number of child nodes (recommended 4 or 8)
+     * @param options - options of underlying queue and re-insert policy
+     */
+    constructor(k: number = 4, options: IKeyedPriorityQueueOptions<TPriority> = {}) {
+        this._queue = new PriorityQueue<IKeyedElementPriorityPair<K, T, TPriority>, TPriority>([], k, options);
+        this._update_policy = options.updatePolicy ?? 'replace';
+        this._comparer = options.comparer;
+    }
+
+    /**
+     * Compares two priorities with {@link _comparer} or native `<` operator if it isn't specified.
+     * 
+     * @param x - first priority
+     * @param y - second priority
+     * @returns `true` if x strictly less than y
+     */
+    private _less(x: TPriority, y: TPriority): boolean {
+        return this._comparer === undefined ? x < y : this._comparer(x, y) < 0;
+    }
+
+    /**
+     * Enumerates the entries of the queue in an unordered manner.
+     * 
+     * @remarks The queue must not be modified during iteration.
+     */
+    public *[Symbol.iterator](): Iterator<IKeyedElementPriorityPair<K, T, TPriority>> {
+        for(let { pair } of this._index.values())
+            yield { key: pair.key, element: pair.element, priority: pair.priority };
+    }
+
+    /**
+     * Removes all elements and keys from the queue.
+     */
+    public clear(): void {
+        this._queue.clear();
+        this._index.clear();
+    }
+
+    /**
+     * Adds element with associated priority by key or updates element and priority of the key
+     * according to `updatePolicy` option.
+     * 
+     * @param key - key of element
+     * @param elem - specified element
+     * @param priority - his priority
+     * @returns `true` if element was added or updated, `false` if existing entry was kept
+     * 
+     * @throws {@link ArgumentException}
+     * This exception is thrown in strict mode if priority is invalid, existing entry is kept then.
+     */
+    public set(key: K, elem: T, priority: TPriority): boolean {
+        let entry = this._index.get(key);
+        if(entry === undefined) {
+            let pair: IKeyedElementPriorityPair<K, T, TPriority> = { key: key, element: elem, priority: priority };
+            this._index.set(key, { pair: pair, handle: this._queue.enqueue(pair, priority) });
+            return true;
+        }
+        if(this._update_policy == 'keepLower' && !this._less(priority, entry.pair.priority) ||
+            this._update_policy == 'keepHigher' && !this._less(entry.pair.priority, priority))
+            return false;
+        this._queue.updatePriority(entry.handle, priority);
+        entry.pair.element = elem;
+        entry.pair.priority = priority;
+        return true;
+    }
+
+    /**
+     * Checks whether key is in the queue.
+     * 
+     * @param key - key of element
+     * @returns `true` if key is in the queue
+     */
+    public has(key: K): boolean {
+        return this._index.has(key);
+    }
+
+    /**
+     * Returns element of key.
+     * 
+     * @param key - key of element
+     * @returns element or `undefined` if key isn't in the queue
+     */
+    public get(key: K): T | undefined {
+        return this._index.get(key)?.pair.element;
+    }
+
+    /**
+     * Returns priority of key.
+     * 
+     * @param key - key of element
+     * @returns priority or `undefined` if key isn't in the queue
+     */
+    public priorityOf(key: K): TPriority | undefined {
+        return this._index.get(key)?.pair.priority;
+    }
+
+    /**
+     * Removes key with its element from the queue.
+     * 
+     * @param key - key of element
+     * @returns `true` if key was in the queue
+     */
+    public delete(key: K): boolean {
+        let entry = this._index.get(key);
+        if(entry === undefined)
+            return false;
+        this._queue.remove(entry.handle);
+        this._index.delete(key);
+        return true;
+    }
+
+    /**
+     * Returns entry with the extreme (minimal) priority without removing it.
+     * 
+     * @returns key, element and priority of the extreme entry
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public peekEntry(): IKeyedElementPriorityPair<K, T, TPriority> {
+        if(this._index.size == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        let pair = this._queue.peek();
+        return { key: pair.key, element: pair.element, priority: pair.priority };
+    }
+
+    /**
+     * Returns the extreme (minimal) element from the queue without removing it.
+     * 
+     * @returns The extreme (minimal) element
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public peek(): T {
+        return this.peekEntry().element;
+    }
+
+    /**
+     * Removes and returns entry with the extreme (minimal) priority. Its key is removed from the index
+     * in the same call.
+     * 
+     * @returns key, element and priority of the extreme entry
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public dequeueEntry(): IKeyedElementPriorityPair<K, T, TPriority> {
+        if(this._index.size == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        let pair = this._queue.dequeue();
+        this._index.delete(pair.key);
+        return { key: pair.key, element: pair.element, priority: pair.priority };
+    }
+
+    /**
+     * Removes and returns the extreme (minimal) element from the queue with its key.
+     * 
+     * @returns The extreme (minimal) element
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public dequeue(): T {
+        return this.dequeueEntry().element;
+    }
+}
@@ -0,0 +1,346 @@
+import { Comparer } from "./Comparer";
+import { IElementPriorityPair } from "./IElementPriorityPair";
+import { InvalidOperationException } from "./InvalidOperationException";
+import { IPriorityQueue } from "./IPriorityQueue";
+
+/**
+ * Double-ended priority queue based on array-backed min-max heap.
+ * It has the same interface as {@link PriorityQueue} for min side and gives access to max side by
+ * {@link peekMax}, {@link dequeueMax} and {@link enqueueDequeueMax}.
+ *
+ * @typeParam T - Specifies the type of elements in the queue.
+ * @typeParam TPriority - Specifies the type of priority associated with enqueued elements (default `number`).
+ *
+ * @remarks Nodes on even levels (root level is 0) are less than or equal to all of their descendants,
+ * nodes on odd levels are greater than or equal to them. So minimum is root and maximum is one of its children.
+ * - Parent of the node at index i (except root node) is located at index (i-1)/2
+ * - Children of the node at index i are at indices 2*i+1 and 2*i+2
+ */
+export class MinMaxPriorityQueue<T, TPriority = number> implements IPriorityQueue<T, TPriority> {
+
+    /**
+     * Priorities of heap nodes.
+     */
+    private _heap: Array<TPriority> = [];
+
+    /**
+     * Elements of heap nodes.
+     */
+    private _elems: Array<T> = [];
+
+    /**
+     * Count elements of heap.
+     */
+    private _heap_size: number = 0;
+
+    /**
+     * Comparer of priorities. If it's `undefined`, priorities compared by native `<` operator.
+     */
+    private readonly _comparer: Comparer<TPriority> | undefined;
+
+    /** @inheritDoc IPriorityQueue.count */
+    public get count(): number {
+        return this._heap_size;
+    }
+
+    /** @inheritDoc IPriorityQueue.unorderedItems */
+    public get unorderedItems(): Array<T> {
+        return this._elems.slice(0, this._heap_size);
+    }
+
+    /**
+     * Construcor of priority queue. It accpets as arguments array of elemnts with associated priority (default empty)
+     * and comparer of priorities (default native `<` operator)
+     *
+     * @param range - sequence of elements
+     * @param comparer - comparer of priorities
+     */
+    constructor(range: Array<IElementPriorityPair<T, TPriority>> = [], comparer?: Comparer<TPriority>) {
+        this._comparer = comparer;
+        this.enqueueRange(range);
+    }
+
+    /**
+     * Compares two priorities with {@link _comparer} or native `<` operator if it isn't specified.
+     *
+     * @param x - first priority
+     * @param y - second priority
+     * @returns `true` if x strictly less than y
+     */
+    private _less(x: TPriority, y: TPriority): boolean {
+        return this._comparer === undefined ? x < y : this._comparer(x, y) < 0;
+    }
+
+    /**
+     * Compares two nodes by priorities in direction of level.
+     *
+     * @param a - index of first node
+     * @param b - index of second node
+     * @param min - `true` for min level, `false` for max level
+     * @returns `true` if node a must be closer to root than node b
+     */
+    private _before(a: number, b: number, min: boolean): boolean {
+        return min ? this._less(this._heap[a], this._heap[b]) : this._less(this._heap[b], this._heap[a]);
+    }
+
+    /**
+     * Checks whether node lays on min level.
+     *
+     * @param index - index of node
+     * @returns `true` for even levels
+     */
+    private _isMinLevel(index: number): boolean {
+        return (Math.floor(Math.log2(index + 1)) & 1) == 0;
+    }
+
+    /**
+     * Swaps two nodes of heap.
+     *
+     * @param a - index of first node
+     * @param b - index of second node
+     */
+    private _swap(a: number, b: number) {
+        [this._heap[a], this._heap[b]] = [this._heap[b], this._heap[a]];
+        [this._elems[a], this._elems[b]] = [this._elems[b], this._elems[a]];
+    }
+
+    /**
+     * Restores a given node up in the heap.
+     *
+     * @param index - index of node
+     */
+    private _restoreUp(index: number) {
+        if(index == 0)
+            return;
+        let parent: number = (index - 1) >> 1;
+        let min: boolean = this._isMinLevel(index);
+
+        // node may belong to levels of another direction
+        if(this._before(parent, index, min)) {
+            this._swap(index, parent);
+            index = parent;
+            min = !min;
+        }
+
+        // move up by grandparents of the same direction
+        while(index > 2) {
+            let grandparent: number = (((index - 1) >> 1) - 1) >> 1;
+            if(!this._before(index, grandparent, min))
+                break;
+            this._swap(index, grandparent);
+            index = grandparent;
+        }
+    }
+
+    /**
+     * Method for restore min-max heap property for brench.
+     *
+     * @param index - top-node index
+     */
+    private _restoreDown(index: number) {
+        let min: boolean = this._isMinLevel(index);
+        while(true) {
+
+            // find extreme node among children and grandchildren
+            let first_child: number = 2 * index + 1;
+            if(first_child >= this._heap_size)
+                break;
+            let extreme: number = first_child;
+            for(let i of [first_child + 1, 2 * first_child + 1, 2 * first_child + 2, 2 * first_child + 3, 2 * first_child + 4])
+                if(i < this._heap_size && this._before(i, extreme, min))
+                    extreme = i;
+
+            if(!this._before(extreme, index, min))
+                break;
+            this._swap(extreme, index);
+
+            // child is the last level of descendants
+            if(extreme <= first_child + 1)
+                break;
+
+            // grandchild may break property with its parent of another direction
+            let parent: number = (extreme - 1) >> 1;
+            if(this._before(parent, extreme, min))
+                this._swap(extreme, parent);
+            index = extreme;
+        }
+    }
+
+    /**
+     * Returns index of node with maximal priority.
+     *
+     * @returns index of max node
+     */
+    private _maxIndex(): number {
+        if(this._heap_size <= 2)
+            return this._heap_size - 1;
+        return this._less(this._heap[1], this._heap[2]) ? 2 : 1;
+    }
+
+    /**
+     * Removes node from the heap replacing it with the last one.
+     *
+     * @param index - index of node
+     * @returns element of removed node
+     */
+    private _removeAt(index: number): T {
+        let result: T = this._elems[index];
+        this._heap_size--;
+        this._heap[index] = this._heap[this._heap_size];
+        this._elems[index] = this._elems[this._heap_size];
+        this._heap.length = this._heap_size;
+        this._elems.length = this._heap_size;
+        if(index < this._heap_size)
+            this._restoreDown(index);
+        return result;
+    }
+
+    /** @inheritDoc IPriorityQueue.clear */
+    public clear(): void {
+        this._heap = [];
+        this._elems = [];
+        this._heap_size = 0;
+    }
+
+    /** @inheritDoc IPriorityQueue.enqueue */
+    public enqueue(elem: T, priority: TPriority): void {
+        this._heap[this._heap_size] = priority;
+        this._elems[this._heap_size] = elem;
+        this._heap_size++;
+        this._restoreUp(this._heap_size - 1);
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.dequeue
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public dequeue(): T {
+        if(this._heap_size == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        return this._removeAt(0);
+    }
+
+    /**
+     * Removes and returns the maximal element from the queue
+     *
+     * @returns The maximal element
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public dequeueMax(): T {
+        if(this._heap_size == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        return this._removeAt(this._maxIndex());
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.peek
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public peek(): T {
+        if(this._heap_size == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        return this._elems[0];
+    }
+
+    /**
+     * Returns the maximal element from the queue without removing it.
+     *
+     * @returns The maximal element
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public peekMax(): T {
+        if(this._heap_size == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        return this._elems[this._maxIndex()];
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.enqueueDequeue
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public enqueueDequeue(elem: T, priority: TPriority): T {
+        if(this._heap_size == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        if(!this._less(this._heap[0], priority))
+            return elem;
+        let result: T = this._elems[0];
+        this._heap[0] = priority;
+        this._elems[0] = elem;
+        this._restoreDown(0);
+        return result;
+    }
+
+    /**
+     * Adds the specified element with associated priority to the queue,
+     * and immediately removes the maximal element, returning the result.
+     *
+     * @param elem - specified element
+     * @param priority - his priority
+     *
+     * @returns The maximal element
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public enqueueDequeueMax(elem: T, priority: TPriority): T {
+        if(this._heap_size == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        let index: number = this._maxIndex();
+        if(!this._less(priority, this._heap[index]))
+            return elem;
+        let result: T = this._elems[index];
+        this._heap[index] = priority;
+        this._elems[index] = elem;
+
+        // new priority may be less than minimum on root
+        if(index > 0 && this._less(priority, this._heap[0]))
+            this._swap(index, 0);
+        this._restoreDown(index);
+        return result;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.dequeueEnqueue
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public dequeueEnqueue(elem: T, priority: TPriority): T {
+        if(this._heap_size == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        let result: T = this._elems[0];
+        this._heap[0] = priority;
+        this._elems[0] = elem;
+        this._restoreDown(0);
+        return result;
+    }
+
+    /** @inheritDoc IPriorityQueue.enqueueRange */
+    public enqueueRange(range: Array<IElementPriorityPair<T, TPriority>>): void {
+        if(range.length < this._heap_size / Math.log2(this._heap_size)) {
+            range.forEach(pair => {
+                this.enqueue(pair.element, pair.priority);
+            });
+        } else {
+            for(let i = 0; i < range.length; i++) {
+                this._heap[this._heap_size] = range[i].priority;
+                this._elems[this._heap_size] = range[i].element;
+                this._heap_size++;
+            }
+
+            // heapify all internal nodes starting from last non-leaf node
+            for(let i = (this._heap_size - 2) >> 1; i >= 0; i--)
+                this._restoreDown(i);
+        }
+    }
+}
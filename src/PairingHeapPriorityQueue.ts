@@ -0,0 +1,356 @@
+import { Comparer } from "./Comparer";
+import { HeapIdentity } from "./HeapIdentity";
+import { IElementPriorityPair } from "./IElementPriorityPair";
+import { InvalidOperationException } from "./InvalidOperationException";
+import { IPriorityQueue } from "./IPriorityQueue";
+
+/**
+ * Node of pairing heap. Returned by {@link PairingHeapPriorityQueue.enqueue} as opaque handle,
+ * don't modify its fields directly.
+ *
+ * @typeParam T - Specifies the type of elements in the queue.
+ * @typeParam TPriority - Specifies the type of priority associated with enqueued elements.
+ */
+export class PairingHeapNode<T, TPriority> {
+
+    /** Enqueued element */
+    element: T;
+
+    /** Priority of element */
+    priority: TPriority;
+
+    /** First child */
+    child: PairingHeapNode<T, TPriority> | null = null;
+
+    /** Right sibling */
+    sibling: PairingHeapNode<T, TPriority> | null = null;
+
+    /** Parent if node is first child, left sibling otherwise */
+    prev: PairingHeapNode<T, TPriority> | null = null;
+
+    /** Identity of owner heap, `null` if node left the heap */
+    identity: HeapIdentity | null;
+
+    /**
+     * Nodes are created by queue only.
+     *
+     * @param element - enqueued element
+     * @param priority - his priority
+     * @param identity - identity of owner heap
+     */
+    constructor(element: T, priority: TPriority, identity: HeapIdentity) {
+        this.element = element;
+        this.priority = priority;
+        this.identity = identity;
+    }
+}
+
+/**
+ * Priority queue based on pairing heap with the same interface as {@link PriorityQueue}.
+ * On dequeue, the item with the lowest priority value is removed.
+ *
+ * @typeParam T - Specifies the type of elements in the queue.
+ * @typeParam TPriority - Specifies the type of priority associated with enqueued elements (default `number`).
+ *
+ * @remarks Enqueue, meld and decrease of priority take O(1) time, dequeue takes amortized O(log n) time
+ * (two-pass pairing). It allocates object per element, so it's slower than k-ary heap on short-live queues,
+ * but may be faster on decrease-key heavy workloads.
+ */
+export class PairingHeapPriorityQueue<T, TPriority = number> implements IPriorityQueue<T, TPriority> {
+
+    /**
+     * Root of heap.
+     */
+    private _root: PairingHeapNode<T, TPriority> | null = null;
+
+    /**
+     * Count elements of heap.
+     */
+    private _size: number = 0;
+
+    /**
+     * Identity of heap, replaced on {@link clear} and {@link meld} to stale handles.
+     */
+    private _identity: HeapIdentity = new HeapIdentity();
+
+    /**
+     * Comparer of priorities. If it's `undefined`, priorities compared by native `<` operator.
+     */
+    private readonly _comparer: Comparer<TPriority> | undefined;
+
+    /** @inheritDoc IPriorityQueue.count */
+    public get count(): number {
+        return this._size;
+    }
+
+    /** @inheritDoc IPriorityQueue.unorderedItems */
+    public get unorderedItems(): Array<T> {
+        let result: Array<T> = [];
+        let stack: Array<PairingHeapNode<T, TPriority>> = [];
+        if(this._root !== null)
+            stack.push(this._root);
+        while(stack.length > 0) {
+            let node = stack.pop() as PairingHeapNode<T, TPriority>;
+            result.push(node.element);
+            if(node.child !== null)
+                stack.push(node.child);
+            if(node.sibling !== null)
+                stack.push(node.sibling);
+        }
+        return result;
+    }
+
+    /**
+     * Construcor of priority queue. It accpets as arguments array of elemnts with associated priority (default empty)
+     * and comparer of priorities (default native `<` operator)
+     *
+     * @param range - sequence of elements
+     * @param comparer - comparer of priorities
+     */
+    constructor(range: Array<IElementPriorityPair<T, TPriority>> = [], comparer?: Comparer<TPriority>) {
+        this._comparer = comparer;
+        this.enqueueRange(range);
+    }
+
+    /**
+     * Compares two priorities with {@link _comparer} or native `<` operator if it isn't specified.
+     *
+     * @param x - first priority
+     * @param y - second priority
+     * @returns `true` if x strictly less than y
+     */
+    private _less(x: TPriority, y: TPriority): boolean {
+        return this._comparer === undefined ? x < y : this._comparer(x, y) < 0;
+    }
+
+    /**
+     * Links two roots: one with greater priority becomes first child of another.
+     *
+     * @param a - first root or `null`
+     * @param b - second root or `null`
+     * @returns new root
+     */
+    private _link(a: PairingHeapNode<T, TPriority> | null, b: PairingHeapNode<T, TPriority> | null): PairingHeapNode<T, TPriority> | null {
+        if(a === null)
+            return b;
+        if(b === null)
+            return a;
+        if(this._less(b.priority, a.priority))
+            [a, b] = [b, a];
+        b.prev = a;
+        b.sibling = a.child;
+        if(a.child !== null)
+            a.child.prev = b;
+        a.child = b;
+        return a;
+    }
+
+    /**
+     * Combines list of siblings into one tree by two-pass pairing.
+     *
+     * @param first - first node of siblings list
+     * @returns root of combined tree
+     */
+    private _combine(first: PairingHeapNode<T, TPriority> | null): PairingHeapNode<T, TPriority> | null {
+        let pairs: Array<PairingHeapNode<T, TPriority>> = [];
+
+        // first pass: link pairs from left to right
+        let a: PairingHeapNode<T, TPriority> | null = first;
+        while(a !== null) {
+            let b: PairingHeapNode<T, TPriority> | null = a.sibling;
+            let next: PairingHeapNode<T, TPriority> | null = b !== null ? b.sibling : null;
+            a.prev = a.sibling = null;
+            if(b !== null)
+                b.prev = b.sibling = null;
+            pairs.push(this._link(a, b) as PairingHeapNode<T, TPriority>);
+            a = next;
+        }
+
+        // second pass: link results from right to left
+        let result: PairingHeapNode<T, TPriority> | null = null;
+        for(let i = pairs.length - 1; i >= 0; i--)
+            result = this._link(pairs[i], result);
+        return result;
+    }
+
+    /**
+     * Detaches non-root node with its subtree from the heap.
+     *
+     * @param node - node to detach
+     */
+    private _cut(node: PairingHeapNode<T, TPriority>) {
+        let prev = node.prev as PairingHeapNode<T, TPriority>;
+        if(prev.child === node)
+            prev.child = node.sibling;
+        else
+            prev.sibling = node.sibling;
+        if(node.sibling !== null)
+            node.sibling.prev = prev;
+        node.prev = node.sibling = null;
+    }
+
+    /**
+     * Helper method that checks handle and throws if it's stale.
+     *
+     * @param handle - handle returned by {@link enqueue}
+     */
+    private _check(handle: PairingHeapNode<T, TPriority>) {
+        if(!this.contains(handle))
+            throw new InvalidOperationException('The handle does not belong to element of the queue.');
+    }
+
+    /** @inheritDoc IPriorityQueue.clear */
+    public clear(): void {
+        this._root = null;
+        this._size = 0;
+        this._identity = new HeapIdentity();
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.enqueue
+     *
+     * @returns handle of element for further {@link updatePriority}, {@link remove} and {@link contains} calls
+     */
+    public enqueue(elem: T, priority: TPriority): PairingHeapNode<T, TPriority> {
+        let node = new PairingHeapNode<T, TPriority>(elem, priority, this._identity);
+        this._root = this._link(this._root, node);
+        this._size++;
+        return node;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.dequeue
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public dequeue(): T {
+        if(this._root === null)
+            throw new InvalidOperationException('The queue is empty.');
+        let root: PairingHeapNode<T, TPriority> = this._root;
+        this._root = this._combine(root.child);
+        root.child = null;
+        root.identity = null;
+        this._size--;
+        return root.element;
+    }
+
+    /** @inheritDoc IPriorityQueue.peek */
+    public peek(): T {
+        if(this._root === null)
+            throw new InvalidOperationException('The queue is empty.');
+        return this._root.element;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.enqueueDequeue
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public enqueueDequeue(elem: T, priority: TPriority): T {
+        if(this._root === null)
+            throw new InvalidOperationException('The queue is empty.');
+        if(!this._less(this._root.priority, priority))
+            return elem;
+        let result: T = this.dequeue();
+        this.enqueue(elem, priority);
+        return result;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.dequeueEnqueue
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public dequeueEnqueue(elem: T, priority: TPriority): T {
+        let result: T = this.dequeue();
+        this.enqueue(elem, priority);
+        return result;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.enqueueRange
+     *
+     * @returns handles of elements in the same order as in range
+     */
+    public enqueueRange(range: Array<IElementPriorityPair<T, TPriority>>): Array<PairingHeapNode<T, TPriority>> {
+        return range.map(pair => this.enqueue(pair.element, pair.priority));
+    }
+
+    /**
+     * Checks whether element referenced by handle is still in the queue.
+     *
+     * @param handle - handle returned by {@link enqueue}
+     * @returns `false` if element was dequeued, removed or handle is issued by another queue
+     */
+    public contains(handle: PairingHeapNode<T, TPriority>): boolean {
+        return handle.identity !== null && handle.identity.resolve() === this._identity;
+    }
+
+    /**
+     * Changes priority of element referenced by handle. Decrease takes O(1) time,
+     * increase takes amortized O(log n) time.
+     *
+     * @param handle - handle returned by {@link enqueue}
+     * @param priority - new priority
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if handle is stale.
+     */
+    public updatePriority(handle: PairingHeapNode<T, TPriority>, priority: TPriority): void {
+        this._check(handle);
+        if(this._less(priority, handle.priority)) {
+            handle.priority = priority;
+            if(handle !== this._root) {
+                this._cut(handle);
+                this._root = this._link(this._root, handle);
+            }
+        } else {
+            this.remove(handle);
+            handle.priority = priority;
+            handle.identity = this._identity;
+            this._root = this._link(this._root, handle);
+            this._size++;
+        }
+    }
+
+    /**
+     * Removes element referenced by handle from the queue.
+     *
+     * @param handle - handle returned by {@link enqueue}
+     * @returns removed element
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if handle is stale.
+     */
+    public remove(handle: PairingHeapNode<T, TPriority>): T {
+        this._check(handle);
+        if(handle === this._root)
+            return this.dequeue();
+        this._cut(handle);
+        this._root = this._link(this._root, this._combine(handle.child));
+        handle.child = null;
+        handle.identity = null;
+        this._size--;
+        return handle.element;
+    }
+
+    /**
+     * Moves all elements of other queue into this one in O(1) time. Other queue becomes empty,
+     * handles of its elements remain valid for this queue.
+     *
+     * @param other - queue to meld, must use the same ordering of priorities
+     */
+    public meld(other: PairingHeapPriorityQueue<T, TPriority>): void {
+        if(other === this)
+            return;
+        this._root = this._link(this._root, other._root);
+        this._size += other._size;
+        other._identity.forward = this._identity;
+        other._identity = new HeapIdentity();
+        other._root = null;
+        other._size = 0;
+    }
+}
@@ -0,0 +1,256 @@
+import { Comparer } from "./Comparer";
+import { IElementPriorityPair } from "./IElementPriorityPair";
+import { InvalidOperationException } from "./InvalidOperationException";
+
+/**
+ * Immutable node of leftist heap.
+ */
+interface ILeftistNode<T, TPriority> {
+    readonly element: T;
+    readonly priority: TPriority;
+
+    /**
+     * Length of the right spine (distance to the nearest missing child).
+     */
+    readonly rank: number;
+    readonly left: ILeftistNode<T, TPriority> | null;
+    readonly right: ILeftistNode<T, TPriority> | null;
+}
+
+/**
+ * Persistent (immutable) priority queue based on leftist heap with structural sharing.
+ * Operations return new versions of the queue and leave old ones valid, so state of search
+ * (branch-and-bound, game-tree) may be forked cheaply.
+ * 
+ * @typeParam T - Specifies the type of elements in the queue.
+ * @typeParam TPriority - Specifies the type of priority associated with enqueued elements (default `number`).
+ * 
+ * @remarks Right spine of leftist heap has O(log n) nodes, so {@link enqueue}, {@link dequeue} and
+ * {@link merge} take O(log n) time and allocate O(log n) new nodes, the rest of nodes is shared
+ * between versions. Use {@link PriorityQueue.clone} if you need full copy of mutable queue.
+ */
+export class PersistentPriorityQueue<T, TPriority = number> implements Iterable<IElementPriorityPair<T, TPriority>> {
+
+    /**
+     * Root of leftist heap.
+     */
+    private _root: ILeftistNode<T, TPriority> | null = null;
+
+    /**
+     * Count elements of heap.
+     */
+    private _size: number = 0;
+
+    /**
+     * Comparer of priorities. If it's `undefined`, priorities compared by native `<` operator.
+     */
+    private readonly _comparer: Comparer<TPriority> | undefined;
+
+    /**
+     * Gets the number of elements contained in the queue
+     */
+    public get count(): number {
+        return this._size;
+    }
+
+    /**
+     * Gets a collection that enumerates the elements of the queue in an unordered manner.
+     */
+    public get unorderedItems(): Array<T> {
+        let result: Array<T> = [];
+        for(let pair of this)
+            result.push(pair.element);
+        return result;
+    }
+
+    /**
+     * Construcor of persistent priority queue. It accpets as arguments array of elemnts with associated
+     * priority (default empty) and comparer of priorities (default native `<` operator)
+     * 
+     * @param range - sequence of elements
+     * @param comparer - comparer of priorities
+     */
+    constructor(range: Array<IElementPriorityPair<T, TPriority>> = [], comparer?: Comparer<TPriority>) {
+        this._comparer = comparer;
+        this._root = this._build(range);
+        this._size = range.length;
+    }
+
+    /**
+     * Compares two priorities with {@link _comparer} or native `<` operator if it isn't specified.
+     * 
+     * @param x - first priority
+     * @param y - second priority
+     * @returns `true` if x strictly less than y
+     */
+    private _less(x: TPriority, y: TPriority): boolean {
+        return this._comparer === undefined ? x < y : this._comparer(x, y) < 0;
+    }
+
+    /**
+     * Creates new version of the queue with the same comparer.
+     * 
+     * @param root - root of heap
+     * @param size - count elements of heap
+     * @returns new version
+     */
+    private _version(root: ILeftistNode<T, TPriority> | null, size: number): PersistentPriorityQueue<T, TPriority> {
+        let queue = new PersistentPriorityQueue<T, TPriority>([], this._comparer);
+        queue._root = root;
+        queue._size = size;
+        return queue;
+    }
+
+    /**
+     * Creates node keeping leftist property: rank of left child isn't less than rank of right one.
+     * 
+     * @param element - element of node
+     * @param priority - priority of node
+     * @param a - first child
+     * @param b - second child
+     * @returns new node
+     */
+    private _node(element: T, priority: TPriority, a: ILeftistNode<T, TPriority> | null,
+        b: ILeftistNode<T, TPriority> | null): ILeftistNode<T, TPriority> {
+        let rank_a: number = a === null ? 0 : a.rank;
+        let rank_b: number = b === null ? 0 : b.rank;
+        if(rank_a >= rank_b)
+            return { element: element, priority: priority, rank: rank_b + 1, left: a, right: b };
+        return { element: element, priority: priority, rank: rank_a + 1, left: b, right: a };
+    }
+
+    /**
+     * Merges two heaps copying nodes of their right spines only.
+     * 
+     * @param a - first heap
+     * @param b - second heap
+     * @returns root of merged heap
+     */
+    private _merge(a: ILeftistNode<T, TPriority> | null, b: ILeftistNode<T, TPriority> | null): ILeftistNode<T, TPriority> | null {
+        if(a === null)
+            return b;
+        if(b === null)
+            return a;
+        if(this._less(b.priority, a.priority))
+            [a, b] = [b, a];
+        return this._node(a.element, a.priority, a.left, this._merge(a.right, b));
+    }
+
+    /**
+     * Builds heap from range by pairwise merges in O(n) time.
+     * 
+     * @param range - sequence of elements
+     * @returns root of heap
+     */
+    private _build(range: Array<IElementPriorityPair<T, TPriority>>): ILeftistNode<T, TPriority> | null {
+        let heaps: Array<ILeftistNode<T, TPriority> | null> = range.map(pair => this._node(pair.element, pair.priority, null, null));
+        if(heaps.length == 0)
+            return null;
+        while(heaps.length > 1) {
+            let merged: Array<ILeftistNode<T, TPriority> | null> = [];
+            for(let i = 0; i + 1 < heaps.length; i += 2)
+                merged.push(this._merge(heaps[i], heaps[i + 1]));
+            if(heaps.length % 2 == 1)
+                merged.push(heaps[heaps.length - 1]);
+            heaps = merged;
+        }
+        return heaps[0];
+    }
+
+    /**
+     * Enumerates the elements of the queue with their priorities in an unordered manner.
+     */
+    public *[Symbol.iterator](): Iterator<IElementPriorityPair<T, TPriority>> {
+        let stack: Array<ILeftistNode<T, TPriority>> = this._root === null ? [] : [this._root];
+        while(stack.length > 0) {
+            let node = stack.pop() as ILeftistNode<T, TPriority>;
+            yield { element: node.element, priority: node.priority };
+            if(node.right !== null)
+                stack.push(node.right);
+            if(node.left !== null)
+                stack.push(node.left);
+        }
+    }
+
+    /**
+     * Returns empty version of the queue with the same comparer.
+     * 
+     * @returns empty queue
+     */
+    public clear(): PersistentPriorityQueue<T, TPriority> {
+        return this._version(null, 0);
+    }
+
+    /**
+     * Returns new version of the queue with the specified element added.
+     * 
+     * @param elem - specified element
+     * @param priority - his priority
+     * @returns new version
+     */
+    public enqueue(elem: T, priority: TPriority): PersistentPriorityQueue<T, TPriority> {
+        return this._version(this._merge(this._root, this._node(elem, priority, null, null)), this._size + 1);
+    }
+
+    /**
+     * Returns new version of the queue with elements of range added.
+     * 
+     * @param range - sequence of elements
+     * @returns new version
+     */
+    public enqueueRange(range: Array<IElementPriorityPair<T, TPriority>>): PersistentPriorityQueue<T, TPriority> {
+        return this._version(this._merge(this._root, this._build(range)), this._size + range.length);
+    }
+
+    /**
+     * Returns new version of the queue without the extreme (minimal) element, use {@link peek} to get it.
+     * 
+     * @returns new version
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public dequeue(): PersistentPriorityQueue<T, TPriority> {
+        if(this._root === null)
+            throw new InvalidOperationException('The queue is empty.');
+        return this._version(this._merge(this._root.left, this._root.right), this._size - 1);
+    }
+
+    /**
+     * Returns the extreme (minimal) element from the queue.
+     * 
+     * @returns The extreme (minimal) element
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public peek(): T {
+        if(this._root === null)
+            throw new InvalidOperationException('The queue is empty.');
+        return this._root.element;
+    }
+
+    /**
+     * Returns the extreme (minimal) element with its priority from the queue.
+     * 
+     * @returns The extreme (minimal) element with its priority
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public peekEntry(): IElementPriorityPair<T, TPriority> {
+        if(this._root === null)
+            throw new InvalidOperationException('The queue is empty.');
+        return { element: this._root.element, priority: this._root.priority };
+    }
+
+    /**
+     * Returns new version of the queue containing elements of both queues. Comparer of this queue is used.
+     * 
+     * @param other - other version or queue
+     * @returns new version
+     */
+    public merge(other: PersistentPriorityQueue<T, TPriority>): PersistentPriorityQueue<T, TPriority> {
+        return this._version(this._merge(this._root, other._root), this._size + other._size);
+    }
+}
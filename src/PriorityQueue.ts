@@ -1,20 +1,45 @@
+import { ArgumentException } from "./ArgumentException";
+import { checkPriority } from "./checkPriority";
+import { Comparer } from "./Comparer";
+import { IElementCodec, jsonElementCodec } from "./IElementCodec";
 import { IElementPriorityPair } from "./IElementPriorityPair";
 import { InvalidOperationException } from "./InvalidOperationException";
 import { IPriorityQueue } from "./IPriorityQueue";
+import { IPriorityQueueJSON } from "./IPriorityQueueJSON";
+import { IPriorityQueueOptions } from "./IPriorityQueueOptions";
+import { IPriorityQueueStats } from "./IPriorityQueueStats";
+import { QueueCheckpoint } from "./QueueCheckpoint";
+import { QueueHandle } from "./QueueHandle";
+import { SerializationException } from "./SerializationException";
 
 
+/**
+ * Indexable buffer of priorities: `Float64Array` or plain array.
+ */
+type PriorityBuffer<TPriority> = { [index: number]: TPriority, length: number };
+
+/**
+ * Record of undo journal with old values of heap node, element slot or entry of free slots stack.
+ */
+type JournalRecord<T, TPriority> =
+    { kind: 'node', index: number, priority: TPriority, link: number } |
+    { kind: 'slot', index: number, element: T, stamp: number } |
+    { kind: 'free', index: number, slot: number };
+
 /**
  * Fast implementation of priority queue / min-heap with C#-like interface.
  * Represents a collection of items that have a value and a priority. 
  * On dequeue, the item with the lowest priority value is removed.
  * 
  * @typeParam T - Specifies the type of elements in the queue. 
+ * @typeParam TPriority - Specifies the type of priority associated with enqueued elements (default `number`).
  * 
  * @remarks Implements based on an array-backed, k-ary min-heap after studying
  * {@link https://arxiv.org/abs/1403.0252} and {@link https://www.geeksforgeeks.org/k-ary-heap/}
  * and some investigations of optimize for js. Primary goal was create ultra-fast js-native
  * queue for general purpose shortest path problem algorithm. Pairing heap may be still
- * faster than k-ary heap, further investigation will be.
+ * faster than k-ary heap on decrease-key heavy workloads, so {@link PairingHeapPriorityQueue} and
+ * {@link BinomialHeapPriorityQueue} are available too, use {@link createPriorityQueue} to swap them.
  * 
  * About performance: queue faster than other implementations e.g. {@link https://github.com/ignlg/heap-js}
  * from about 1.5x on low-depth (< 1000 elements) > 10:1 enqueue : dequeue mix workload
@@ -22,26 +47,50 @@ import { IPriorityQueue } from "./IPriorityQueue";
  * on short-live queue. Optimal value of k in most scearios is 4. But feel free to increase to 8 or even 16.
  * 
  * Speed up cost some limitations and expenses. Therefore this queue consumes additional memory, doesnt 
- * free it, support only real-valued priority and work as min-heap. So, some tips:
+ * free it and work as min-heap (see {@link MinMaxPriorityQueue} if you need access to both ends). So, some tips:
  * 
- * - After long sequence of dequeue operations good think to use {@link shrink} funcrion to free space if
- * you mind continue work with queue.
- * - If you need reverse ordering, you may multiply priority by -1.
+ * - After long sequence of dequeue operations good think to use {@link shrink} funcrion to compact elements
+ * and {@link trimExcess} to free space if you mind continue work with queue.
+ * - If you know size of workload, pass `initialCapacity` option or call {@link ensureCapacity} to avoid
+ * reallocations of buffers.
+ * - Without comparer priorities are compared by native `<` operator and, while all of them are numbers, stored
+ * in `Float64Array`, that is the fastest path for real-valued priority. First non-numeric priority (e.g. string
+ * or bigint) switches buffer to plain array. For tuples or other objects pass comparer to constructor.
+ * - If you need reverse ordering (max-heap), pass {@link reverseComparer} instead of multiply priority by -1.
+ * - Order of elements with equal priorities depends on heap layout. If you need insertion (FIFO) order
+ * of them, turn on `stable` option. It costs one extra comparison on ties only.
  */
-class PriorityQueue<T> implements IPriorityQueue<T> {
+class PriorityQueue<T, TPriority = number> implements IPriorityQueue<T, TPriority>, Iterable<IElementPriorityPair<T, TPriority>> {
     
     /**
-     * Array of pairs of numbers: priority and link to elemnt in {@link _elems}. Don't use direclty.
+     * Buffer of priorities of heap nodes. Don't use direclty.
      * If you need access to enumerable elements in queue, please, use {@link unorderedItems} instead.
      * 
-     * @remarks Even element in _heap represent a priority of associated element, link to which contained
-     * into odd element. The {@link _heap_size} controll numbers of such pair. So, in a moment heap 
-     * contained on array slice [0.._heap_size*2-1], where _heap[i*2] is piroirty of elemnt _heap[i*2+1].
-     * - Parent of the node at index i (except root node) is located at index (i-1)*2/k
-     * - Children of the node at index i are at indices (k*i)*2+1 , (k*i)*2+2 …. (k*i)*2+k
-     * - he last non-leaf node of a heap of size n is located at index (n-2)*2/k
+     * @remarks It's `Float64Array` while {@link _numeric} and plain array otherwise.
+     * Each node of heap is pair: priority _heap[i] and link to elemnt in {@link _elems} _heap_links[i].
+     * The {@link _heap_size} controll numbers of such pair. So, in a moment heap contained on
+     * buffers slice [0.._heap_size-1].
+     * - Parent of the node at index i (except root node) is located at index (i-1)/k
+     * - Children of the node at index i are at indices k*i+1 , k*i+2 …. k*i+k
+     * - he last non-leaf node of a heap of size n is located at index (n-2)/k
+     */
+    private _heap: PriorityBuffer<TPriority>;
+
+    /**
+     * Buffer of links of heap nodes to elemnts in {@link _elems}. Don't use direclty.
+     */
+    private _heap_links: Int32Array;
+
+    /**
+     * Length of buffers. Exectly that value has return by {@link capacity} accessor.
+     */
+    private _capacity: number;
+
+    /**
+     * Multiplier of {@link _capacity} on growth of buffers.
+     * @defaultValue `2`
      */
-    private _heap: Array<number> = [];
+    private readonly _growth_factor: number = 2;
 
     /**
      * Number of child nodes
@@ -53,8 +102,8 @@ class PriorityQueue<T> implements IPriorityQueue<T> {
      * Count elements of heap. Exectly that value has return by {@link count} accessor.
      * Please, use {@link count} instead of read value directly.
      * 
-     * @remarks Note, it's not the same as lenght of heap. Our implementataion of priority queue
-     * never pop or trim array-back of heap, except calling {@link shrink} and represent 
+     * @remarks Note, it's not the same as lenght of heap buffers. Our implementataion of priority queue
+     * never trim buffers of heap, except calling {@link trimExcess} and represent 
      * elements of memmory in non-obvious way. 
      */
     private _heap_size: number = 0;
@@ -67,7 +116,7 @@ class PriorityQueue<T> implements IPriorityQueue<T> {
      * size of array. It exactly the same. But not netiher actually count of elements nor hint
      * about what index could be used. {@link _exited_indexes} mark indexes of dequeued elemnts.
      * So {@link _elems} without {@link _exited_indexes} is exactly returned value by {@link unorderedItems}.
-     * These elements linked by indexes from odd indexes of {@link _heap}
+     * These elements linked by indexes from {@link _heap_links}
      */
     private _elems: Array<T> = [];
 
@@ -82,53 +131,248 @@ class PriorityQueue<T> implements IPriorityQueue<T> {
      * @remarks This is solution to memory leak by repetative enqueue-dequeue long sequence. (Index+1) of
      * last added element is saved in {@link _exited_indexes_count}
      */
-    private _exited_indexes: Array<number> = [];
+    private _exited_indexes: Int32Array;
 
     /**
      * Count or (Index+1) of last added element to Stack {@link _exited_indexes}
      */
     private _exited_indexes_count: number = 0;
 
+    /**
+     * Position index: heap node index of element linked by index in {@link _elems}.
+     * Kept in sync by {@link _swap}, so {@link updatePriority} and {@link remove} find node in constant time.
+     */
+    private _positions: Int32Array;
+
+    /**
+     * Unique stamps of elements in {@link _elems}. Zero marks dequeued (free) slot.
+     * 
+     * @remarks Stamp is taken from {@link _stamp_counter}, which is never reset, so {@link QueueHandle}
+     * of dequeued element goes stale even if its slot is reused from {@link _exited_indexes}.
+     * Stamps grow monotonically with insertion, so in {@link _stable} mode they are sequence numbers
+     * used for tie-break.
+     */
+    private _stamps: Float64Array;
+
+    /**
+     * Last issued stamp.
+     */
+    private _stamp_counter: number = 0;
+
+    /**
+     * Comparer of priorities. If it's `undefined`, priorities compared by native `<` operator.
+     */
+    private readonly _comparer: Comparer<TPriority> | undefined;
+
+    /**
+     * Whether {@link _heap} is `Float64Array`: {@link _comparer} isn't specified and all priorities are numbers.
+     */
+    private _numeric: boolean;
+
+    /**
+     * Stable mode: equal priorities are ordered by {@link _stamps}.
+     */
+    private readonly _stable: boolean = false;
+
+    /**
+     * Strict mode: priorities are checked by {@link _checkPriority}.
+     */
+    private readonly _strict: boolean = false;
+
+    /**
+     * Operation counters, `undefined` if metrics mode is off.
+     */
+    private _stats: IPriorityQueueStats | undefined;
+
+    /**
+     * Listeners registered by {@link onEnqueue}, {@link onDequeue} and {@link onClear}.
+     */
+    private _listeners: {
+        enqueue: Array<(element: T, priority: TPriority) => void>,
+        dequeue: Array<(element: T, priority: TPriority) => void>,
+        clear: Array<() => void>
+    } = { enqueue: [], dequeue: [], clear: [] };
+
+    /**
+     * Whether metrics are collected or some listener is registered. Mutating operations check only
+     * this flag, so unobserved queue pays single branch per operation.
+     */
+    private _observed: boolean = false;
+
+    /**
+     * Undo journal of active checkpoints, `undefined` if there are none. Records are added by
+     * {@link _journalNode}, {@link _journalSlot} and {@link _journalFree}.
+     */
+    private _journal: Array<JournalRecord<T, TPriority>> | undefined;
+
+    /**
+     * Active checkpoints from outer to inner.
+     */
+    private _checkpoints: Array<QueueCheckpoint> = [];
+
+    /**
+     * Original {@link _swap} shadowed by journaling wrapper while some checkpoint is active.
+     */
+    private _unjournaled_swap: ((a: number, b: number) => void) | undefined;
+
+    /**
+     * Version of JSON and binary snapshot formats.
+     */
+    private static readonly _format_version: number = 1;
+
+    /**
+     * Magic number of binary snapshot, "PQUE" in little-endian.
+     */
+    private static readonly _binary_magic: number = 0x45555150;
+
     /** @inheritDoc IPriorityQueue.count */
     public get count(): number {
         return this._heap_size;
     }
 
+    /**
+     * Gets the number of elements the queue can hold without reallocation of buffers.
+     */
+    public get capacity(): number {
+        return this._capacity;
+    }
+
     /** @inheritDoc IPriorityQueue.unorderedItems */
     public get unorderedItems(): Array<T> {
-        let result: Array<T> = [];
+        let result: Array<T> = new Array<T>(this._heap_size);
 
-        // helper set for constant time check index of already dequed elements
-        // cause we never pop elements from array, we need slice from 0 to last
-        let exited_set: Set<number> = new Set(this._exited_indexes.slice(0, this._exited_indexes_count));
+        // heap nodes link exactly elements present in queue
+        for(let i = 0; i < this._heap_size; i++)
+            result[i] = this._elems[this._heap_links[i]];
+        return result;
+    }
 
-        // add element to result iff it present in queue
-        this._elems.forEach((v, i) => {
-            if(!exited_set.has(i)) 
-                result.push(v);
-        });
+    /**
+     * Gets a collection that enumerates the elements of the queue with their priorities in an unordered manner.
+     */
+    public get unorderedEntries(): Array<IElementPriorityPair<T, TPriority>> {
+        let result: Array<IElementPriorityPair<T, TPriority>> = new Array(this._heap_size);
+        for(let i = 0; i < this._heap_size; i++)
+            result[i] = { element: this._elems[this._heap_links[i]], priority: this._heap[i] };
         return result;
     }
 
     /**
-     * Construcor of priority queue. It accpets as arguments array of elemnts with associated priority (default empty)
-     * and number of child nodes (default 4)
+     * Enumerates the elements of the queue with their priorities in an unordered manner
+     * directly from heap, without copying it.
+     * 
+     * @remarks The queue must not be modified during iteration.
+     */
+    public *[Symbol.iterator](): Iterator<IElementPriorityPair<T, TPriority>> {
+        for(let i = 0; i < this._heap_size; i++)
+            yield { element: this._elems[this._heap_links[i]], priority: this._heap[i] };
+    }
+
+    /**
+     * Lazily dequeues elements in priority order. Each step of iteration removes one element,
+     * so breaking the loop leaves rest of elements in the queue.
+     * 
+     * @returns generator of dequeued elements
+     */
+    public *drain(): Generator<T, void, undefined> {
+        while(this._heap_size > 0)
+            yield this.dequeue();
+    }
+
+    /**
+     * Enumerates the elements of the queue in priority order without changing the queue.
+     * 
+     * @remarks Walks heap with auxiliary binary heap of nodes, which parents are already enumerated,
+     * so each step takes O(k log m) time, where m is number of enumerated elements.
+     * The queue must not be modified during iteration.
+     * 
+     * @returns generator of elements
+     */
+    public *orderedItems(): Generator<T, void, undefined> {
+
+        // frontier is binary min-heap of node indexes
+        let frontier: Array<number> = [];
+        if(this._heap_size > 0)
+            frontier.push(0);
+        while(frontier.length > 0) {
+            let node: number = frontier[0];
+            let last = frontier.pop() as number;
+
+            // restore down frontier with last node on top
+            if(frontier.length > 0) {
+                let i: number = 0;
+                while(true) {
+                    let min: number = i;
+                    for(let c = i*2+1; c <= i*2+2 && c < frontier.length; c++)
+                        if(this._lessNodes(frontier[c], min == i ? last : frontier[min]))
+                            min = c;
+                    if(min == i)
+                        break;
+                    frontier[i] = frontier[min];
+                    i = min;
+                }
+                frontier[i] = last;
+            }
+            yield this._elems[this._heap_links[node]];
+
+            // add children of enumerated node and restore up each of them
+            for(let child = this._k * node + 1; child <= this._k * node + this._k && child < this._heap_size; child++) {
+                let i: number = frontier.length;
+                while(i > 0 && this._lessNodes(child, frontier[(i - 1) >> 1])) {
+                    frontier[i] = frontier[(i - 1) >> 1];
+                    i = (i - 1) >> 1;
+                }
+                frontier[i] = child;
+            }
+        }
+    }
+
+    /**
+     * Construcor of priority queue. It accpets as arguments array of elemnts with associated priority (default empty),
+     * number of child nodes (default 4) and comparer of priorities (default native `<` operator) or options.
+     * In stable mode elements of range with equal priorities are dequeued in order of range.
+     * Capacity of queue is at least length of range.
      * 
      * @param range - sequence of elements
      * @param k - number of child nodes (recommended 4 or 8)
+     * @param options - comparer of priorities, e.g. {@link reverseComparer} for max-heap, or options of queue
+     * 
+     * @throws {@link ArgumentException}
+     * This exception is thrown in strict mode if some priority of range is invalid.
      */
-    constructor(range: Array<IElementPriorityPair<T>> = [], k: number = 4) {
+    constructor(range: Array<IElementPriorityPair<T, TPriority>> = [], k: number = 4, 
+        options: Comparer<TPriority> | IPriorityQueueOptions<TPriority> = {}) {
+        if(typeof options === 'function')
+            options = { comparer: options };
         this._k = k;
+        this._comparer = options.comparer;
+        this._numeric = this._comparer === undefined && range.every(pair => typeof pair.priority === 'number');
+        this._stable = options.stable ?? false;
+        this._strict = options.strict ?? false;
+        this._growth_factor = options.growthFactor ?? 2;
+        if(options.metrics)
+            this._instrument();
+        this._capacity = Math.max(range.length, options.initialCapacity ?? 16);
+        this._heap = this._allocatePriorities(this._capacity);
+        this._heap_links = new Int32Array(this._capacity);
+        this._exited_indexes = new Int32Array(this._capacity);
+        this._positions = new Int32Array(this._capacity);
+        this._stamps = new Float64Array(this._capacity);
+        if(this._strict)
+            range.forEach(pair => this._checkPriority(pair.priority));
         this._heap_size = range.length;
         this._elems_size = this._heap_size;
 
-        // assign even elemets of _heap priority
-        // odd elements - link to value that stored in
-        // _elems
+        // assign _heap priority and _heap_links
+        // link to value that stored in _elems
         for(let i = 0; i < this._heap_size; i++) {
-            this._heap[i*2] = range[i].priority;
-            this._heap[i*2+1] = i;
+            this._heap[i] = range[i].priority;
+            this._heap_links[i] = i;
             this._elems[i] = range[i].element;
+            this._positions[i] = i;
+            this._stamps[i] = ++this._stamp_counter;
+            if(this._observed)
+                this._notifyEnqueue(range[i].element, range[i].priority);
         }
 
         // Heapify all internal nodes starting from last
@@ -138,6 +382,254 @@ class PriorityQueue<T> implements IPriorityQueue<T> {
             this._restoreDown(i);
     }
 
+    /**
+     * Compares two priorities with {@link _comparer} or native `<` operator if it isn't specified.
+     * 
+     * @param x - first priority
+     * @param y - second priority
+     * @returns `true` if x strictly less than y
+     */
+    private _less(x: TPriority, y: TPriority): boolean {
+        return this._comparer === undefined ? x < y : this._comparer(x, y) < 0;
+    }
+
+    /**
+     * Turns on metrics mode: allocates counters and shadows {@link _less} and {@link _swap}
+     * with counting wrappers on this instance, so prototype methods stay intact for other queues.
+     */
+    private _instrument() {
+        let stats: IPriorityQueueStats = { enqueues: 0, dequeues: 0, comparisons: 0, swaps: 0, peakSize: 0, wastedSlots: 0, shrinks: 0 };
+        let less = this._less;
+        let swap = this._swap;
+        this._less = (x: TPriority, y: TPriority) => {
+            stats.comparisons++;
+            return less.call(this, x, y);
+        };
+        this._swap = (a: number, b: number) => {
+            stats.swaps++;
+            swap.call(this, a, b);
+        };
+        this._stats = stats;
+        this._observed = true;
+    }
+
+    /**
+     * Counts added element and calls enqueue listeners. Called by mutating operations only if {@link _observed}.
+     * 
+     * @param elem - added element
+     * @param priority - his priority
+     */
+    private _notifyEnqueue(elem: T, priority: TPriority) {
+        if(this._stats !== undefined) {
+            this._stats.enqueues++;
+            if(this._heap_size > this._stats.peakSize)
+                this._stats.peakSize = this._heap_size;
+        }
+        this._listeners.enqueue.forEach(listener => listener(elem, priority));
+    }
+
+    /**
+     * Counts dequeued element and calls dequeue listeners. Called by mutating operations only if {@link _observed}.
+     * 
+     * @param elem - dequeued element
+     * @param priority - his priority
+     */
+    private _notifyDequeue(elem: T, priority: TPriority) {
+        if(this._stats !== undefined)
+            this._stats.dequeues++;
+        this._listeners.dequeue.forEach(listener => listener(elem, priority));
+    }
+
+    /**
+     * Adds listener to list and returns function that removes it.
+     * 
+     * @param list - list of listeners
+     * @param listener - added listener
+     * @returns unsubscribe function
+     */
+    private _listen<TListener>(list: Array<TListener>, listener: TListener): () => void {
+        list.push(listener);
+        this._observed = true;
+        return () => {
+            let index: number = list.indexOf(listener);
+            if(index >= 0)
+                list.splice(index, 1);
+            this._observed = this._stats !== undefined || this._listeners.enqueue.length > 0 ||
+                this._listeners.dequeue.length > 0 || this._listeners.clear.length > 0;
+        };
+    }
+
+    /**
+     * Returns snapshot of operation metrics collected since creation of the queue or {@link resetStats}.
+     * 
+     * @returns copy of counters
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue is created without `metrics` option.
+     */
+    public getStats(): IPriorityQueueStats {
+        if(this._stats === undefined)
+            throw new InvalidOperationException('Metrics are disabled, pass metrics option to constructor.');
+        return { ...this._stats, wastedSlots: this._exited_indexes_count };
+    }
+
+    /**
+     * Resets operation counters. Peak size starts from current number of elements.
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue is created without `metrics` option.
+     */
+    public resetStats(): void {
+        if(this._stats === undefined)
+            throw new InvalidOperationException('Metrics are disabled, pass metrics option to constructor.');
+        Object.assign(this._stats, { enqueues: 0, dequeues: 0, comparisons: 0, swaps: 0, peakSize: this._heap_size, shrinks: 0 });
+    }
+
+    /**
+     * Registers listener that is called after element is added to the queue.
+     * 
+     * @param listener - callback with added element and its priority
+     * @returns function that removes listener
+     */
+    public onEnqueue(listener: (element: T, priority: TPriority) => void): () => void {
+        return this._listen(this._listeners.enqueue, listener);
+    }
+
+    /**
+     * Registers listener that is called after element leaves the queue by dequeue operations or {@link remove}.
+     * 
+     * @param listener - callback with dequeued element and its priority
+     * @returns function that removes listener
+     */
+    public onDequeue(listener: (element: T, priority: TPriority) => void): () => void {
+        return this._listen(this._listeners.dequeue, listener);
+    }
+
+    /**
+     * Registers listener that is called after {@link clear}.
+     * 
+     * @param listener - callback
+     * @returns function that removes listener
+     */
+    public onClear(listener: () => void): () => void {
+        return this._listen(this._listeners.clear, listener);
+    }
+
+    /**
+     * Checks priority in {@link _strict} mode: it must be finite number without comparer
+     * and must not be `undefined`, `null` or non-finite number with comparer.
+     * 
+     * @param priority - checked priority
+     * 
+     * @throws {@link ArgumentException}
+     * This exception is thrown if priority is invalid.
+     */
+    private _checkPriority(priority: TPriority) {
+        checkPriority(priority, this._comparer);
+    }
+
+    /**
+     * Compares two nodes of heap by priorities. In {@link _stable} mode equal priorities are
+     * ordered by sequence numbers kept in {@link _stamps}.
+     * 
+     * @param a - index of first node
+     * @param b - index of second node
+     * @returns `true` if node a must be closer to root than node b
+     */
+    private _lessNodes(a: number, b: number): boolean {
+        if(this._less(this._heap[a], this._heap[b]))
+            return true;
+
+        // tie-break equal priorities by sequence number
+        return this._stable && !this._less(this._heap[b], this._heap[a]) &&
+            this._stamps[this._heap_links[a]] < this._stamps[this._heap_links[b]];
+    }
+
+    /**
+     * Allocates buffer of priorities: `Float64Array` for numeric priorities and plain array otherwise.
+     * 
+     * @param capacity - length of buffer
+     * @returns new buffer
+     */
+    private _allocatePriorities(capacity: number): PriorityBuffer<TPriority> {
+        if(this._numeric)
+            return new Float64Array(capacity) as unknown as PriorityBuffer<TPriority>;
+        return new Array<TPriority>(capacity);
+    }
+
+    /**
+     * Replaces `Float64Array` buffer of priorities by plain array before the first non-numeric priority
+     * is stored, so strings, bigints and other values compared by native `<` aren't coerced to numbers.
+     * 
+     * @param priority - priority to store
+     */
+    private _acceptPriority(priority: TPriority) {
+        if(this._numeric && typeof priority !== 'number') {
+            this._heap = Array.from(this._heap as unknown as Float64Array) as unknown as PriorityBuffer<TPriority>;
+            this._numeric = false;
+        }
+    }
+
+    /**
+     * Reallocates all buffers with copying of used slices.
+     * 
+     * @param capacity - new length of buffers, not less than {@link _elems_size}
+     */
+    private _resize(capacity: number) {
+
+        // while checkpoint is active rollback may need nodes and free slots behind used slices
+        let heap_size: number = this._journal === undefined ? this._heap_size : this._capacity;
+        let exited_indexes_count: number = this._journal === undefined ? this._exited_indexes_count : this._capacity;
+        let heap: PriorityBuffer<TPriority> = this._allocatePriorities(capacity);
+        for(let i = 0; i < heap_size; i++)
+            heap[i] = this._heap[i];
+        let links: Int32Array = new Int32Array(capacity);
+        links.set(this._heap_links.subarray(0, heap_size));
+        let exited_indexes: Int32Array = new Int32Array(capacity);
+        exited_indexes.set(this._exited_indexes.subarray(0, exited_indexes_count));
+        let positions: Int32Array = new Int32Array(capacity);
+        positions.set(this._positions.subarray(0, this._elems_size));
+        let stamps: Float64Array = new Float64Array(capacity);
+        stamps.set(this._stamps.subarray(0, this._elems_size));
+        this._heap = heap;
+        this._heap_links = links;
+        this._exited_indexes = exited_indexes;
+        this._positions = positions;
+        this._stamps = stamps;
+        this._capacity = capacity;
+    }
+
+    /**
+     * Ensures that the queue can hold up to `capacity` elements without further reallocation of buffers.
+     * Buffers grow at least in {@link _growth_factor} times.
+     * 
+     * @param capacity - minimum capacity to ensure
+     * @returns new capacity of the queue
+     */
+    public ensureCapacity(capacity: number): number {
+        if(capacity > this._capacity)
+            this._resize(Math.max(capacity, Math.floor(this._capacity * this._growth_factor), this._capacity + 4));
+        return this._capacity;
+    }
+
+    /**
+     * Sets the capacity to the actual number of elements in the queue,
+     * if that number is less than 90 percent of current capacity.
+     * 
+     * @remarks Like {@link shrink} it compacts elements, so handles issued before may become stale.
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if some checkpoint is active.
+     */
+    public trimExcess(): void {
+        if(this._journal !== undefined)
+            throw new InvalidOperationException('The queue cannot be trimmed while checkpoint is active.');
+        if(this._heap_size >= this._capacity * 0.9)
+            return;
+        this.shrink();
+        this._resize(this._heap_size);
+    }
+
     /**
      * Method for restore min-heap property for brench.
      * 
@@ -154,38 +646,39 @@ class PriorityQueue<T> implements IPriorityQueue<T> {
             for(let i = 1; i <= this._k; i++)
                 child[i] = ((this._k * index + i) < this._heap_size) ? (this._k * index + i) : Number.MAX_SAFE_INTEGER;
 
-            // min_child stores the minimum child and
-            // min_child_index holds its index
-            let min_child: number = Number.MAX_SAFE_INTEGER;
-            let min_child_index: number = 0;
+            // min_child_index holds index of the minimum child
+            // or -1 if no child found
+            let min_child_index: number = -1;
 
             // loop through k children to find the minimum of all
             // the children of a given node
             for(let i = 1; i <= this._k; i++) {
                 if (child[i] != Number.MAX_SAFE_INTEGER &&
-                    this._heap[child[i]*2] < min_child)
-                {
+                    (min_child_index < 0 || this._lessNodes(child[i], min_child_index)))
                     min_child_index = child[i];
-                    min_child = this._heap[child[i]*2];
-                }
             }
 
             // leaf node
-            if (min_child == Number.MAX_SAFE_INTEGER)
+            if (min_child_index < 0)
                 break;
 
             // swap only if the key of min_child_index
             // is greater than the key of node
-            // remember about even (priority) / odd (link to value) meaning
-            if (this._heap[index*2] > this._heap[min_child_index*2])
-            {
-                [this._heap[index*2], this._heap[min_child_index*2]] = [this._heap[min_child_index*2], this._heap[index*2]];
-                [this._heap[index*2+1], this._heap[min_child_index*2+1]] = [this._heap[min_child_index*2+1], this._heap[index*2+1]];
-            }
+            if (this._lessNodes(min_child_index, index))
+                this._swap(index, min_child_index);
             index = min_child_index;
         }
     }
 
+    /**
+     * Restores heap property for all nodes calling restore down on each internal node
+     * starting from last one all the way upto the root node.
+     */
+    private _heapify() {
+        for(let i = Math.floor((this._heap_size - 2) / this._k); i >= 0; i--)
+            this._restoreDown(i);
+    }
+
     /**
      * Restores a given node up in the heap. 
      * 
@@ -202,10 +695,8 @@ class PriorityQueue<T> implements IPriorityQueue<T> {
         // send it to the root node
         while (parent >= 0) {
 
-            // remember about even (priority) / odd (link to value) meaning
-            if (this._heap[index*2] < this._heap[parent*2]) {
-                [this._heap[index*2], this._heap[parent*2]] = [this._heap[parent*2], this._heap[index*2]];
-                [this._heap[index*2+1], this._heap[parent*2+1]] = [this._heap[parent*2+1], this._heap[index*2+1]];
+            if (this._lessNodes(index, parent)) {
+                this._swap(index, parent);
                 index = parent;
                 parent = Math.floor((index - 1) / this._k);
             }
@@ -216,6 +707,23 @@ class PriorityQueue<T> implements IPriorityQueue<T> {
         }
     }
 
+    /**
+     * Swaps two nodes of heap and keeps {@link _positions} in sync.
+     * 
+     * @param a - index of first node
+     * @param b - index of second node
+     */
+    private _swap(a: number, b: number) {
+        let priority: TPriority = this._heap[a];
+        this._heap[a] = this._heap[b];
+        this._heap[b] = priority;
+        let link: number = this._heap_links[a];
+        this._heap_links[a] = this._heap_links[b];
+        this._heap_links[b] = link;
+        this._positions[this._heap_links[a]] = a;
+        this._positions[this._heap_links[b]] = b;
+    }
+
     /**
      * Helper method that add T element in queue.
      * 
@@ -237,51 +745,130 @@ class PriorityQueue<T> implements IPriorityQueue<T> {
         } else {
             index = this._elems_size;
             this._elems_size++;
+            this.ensureCapacity(this._elems_size);
         }
+        if(this._journal !== undefined)
+            this._journalSlot(index);
         this._elems[index] = elem;
+        this._stamps[index] = ++this._stamp_counter;
         return index;
     }
 
-    /** @inheritDoc IPriorityQueue.clear */
+    /**
+     * Helper method that mark slot of element as dequeued for further reuse.
+     * 
+     * @param index - index of element in {@link _elems}
+     */
+    private _releaseElem(index: number) {
+        if(this._journal !== undefined) {
+            this._journalFree(this._exited_indexes_count);
+            this._journalSlot(index);
+        }
+        this._exited_indexes[this._exited_indexes_count] = index;
+        this._exited_indexes_count++;
+        this._stamps[index] = 0;
+    }
+
+    /**
+     * Helper method that returns heap node index of element referenced by handle.
+     * 
+     * @param handle - handle returned by {@link enqueue}
+     * @returns node index or `-1` if handle is stale or issued by another queue
+     */
+    private _nodeOf(handle: QueueHandle): number {
+        if(handle._owner !== this || handle._index >= this._elems_size || 
+            this._stamps[handle._index] !== handle._stamp)
+            return -1;
+        return this._positions[handle._index];
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.clear
+     * 
+     * @remarks Capacity of queue is kept, use {@link trimExcess} to free buffers.
+     */
     public clear(): void {
-        this._heap = [];
+        if(this._journal !== undefined) {
+            for(let i = 0; i < this._heap_size; i++)
+                this._journalNode(i);
+            for(let i = 0; i < this._elems_size; i++)
+                this._journalSlot(i);
+        }
+
+        // release references to elements and priorities
+        this._elems.length = 0;
+        if(Array.isArray(this._heap))
+            this._heap.fill(undefined, 0, this._heap_size);
         this._heap_size = 0;
-        this._elems = [];
         this._elems_size = 0;
-        this._exited_indexes = [];
         this._exited_indexes_count = 0;
+        if(this._observed)
+            this._listeners.clear.forEach(listener => listener());
     }
 
     /**
-     * Free currently unused memmory.
+     * Free currently unused slots of elements.
      * 
-     * @remarks Under the hood proceed copying arrays, so its time consupmtion.
+     * @remarks Under the hood moves elements from slots behind {@link count} into dequeued slots
+     * in place, so its time consupmtion. Moved elements get new slots, so handles issued before
+     * may become stale. Sequence numbers of elements are kept, so stable mode ordering is preserved.
+     * Buffers are not reallocated, use {@link trimExcess} for it.
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if some checkpoint is active.
      */
     public shrink(): void {
-        let heap: Array<number> = [];
-        let elems: Array<T> = [];
+        if(this._journal !== undefined)
+            throw new InvalidOperationException('The queue cannot be shrunk while checkpoint is active.');
+        if(this._stats !== undefined)
+            this._stats.shrinks++;
+        let j: number = 0;
+        for(let i = this._heap_size; i < this._elems_size; i++) {
 
-        // copy _heap and _elems with reordering last one
-        for(let i = 0; i < this._heap_size; i++) {
-            heap[i*2] = this._heap[i*2];
-            elems[i] = this._elems[this._heap[i*2+1]];
-            heap[i*2+1] = i;
+            // skip dequeued slot
+            if(this._stamps[i] == 0)
+                continue;
+
+            // find dequeued slot inside [0.._heap_size-1] range
+            while(this._exited_indexes[j] >= this._heap_size)
+                j++;
+            let index: number = this._exited_indexes[j];
+            j++;
+            this._elems[index] = this._elems[i];
+            this._stamps[index] = this._stamps[i];
+            this._positions[index] = this._positions[i];
+            this._heap_links[this._positions[index]] = index;
         }
-        this._heap = heap;
-        this._elems = elems;
+        this._elems.length = this._heap_size;
+        this._stamps.fill(0, this._heap_size, this._elems_size);
         this._elems_size = this._heap_size;
-        this._exited_indexes = [];
         this._exited_indexes_count = 0;
     }
 
-    /** @inheritDoc IPriorityQueue.enqueue */
-    public enqueue(elem: T, priority: number): void {
+    /**
+     * @inheritDoc IPriorityQueue.enqueue
+     * 
+     * @returns handle of element for further {@link updatePriority}, {@link remove} and {@link contains} calls
+     * 
+     * @throws {@link ArgumentException}
+     * This exception is thrown in strict mode if priority is invalid.
+     */
+    public enqueue(elem: T, priority: TPriority): QueueHandle {
+        if(this._strict)
+            this._checkPriority(priority);
+        this._acceptPriority(priority);
         let index: number;
         index = this._addElem(elem);
-        this._heap[this._heap_size*2] = priority;
-        this._heap[this._heap_size*2+1] = index;
+        if(this._journal !== undefined)
+            this._journalNode(this._heap_size);
+        this._heap[this._heap_size] = priority;
+        this._heap_links[this._heap_size] = index;
+        this._positions[index] = this._heap_size;
         this._heap_size++;
         this._restoreUp(this._heap_size - 1);
+        if(this._observed)
+            this._notifyEnqueue(elem, priority);
+        return new QueueHandle(this, index, this._stamps[index]);
     }
 
     /** 
@@ -293,16 +880,25 @@ class PriorityQueue<T> implements IPriorityQueue<T> {
     public dequeue(): T {
         if(this._heap_size == 0)
             throw new InvalidOperationException('The queue is empty.');
-        let max: number = this._heap[1];
+        let max: number = this._heap_links[0];
+        let priority: TPriority = this._heap[0];
         this._heap_size--;
 
         // mark index of dequed element for further reuse
-        this._exited_indexes[this._exited_indexes_count] = max;
-        this._exited_indexes_count++;
-        this._heap[0] = this._heap[this._heap_size*2];
-        this._heap[1] = this._heap[this._heap_size*2+1];
+        this._releaseElem(max);
+
+        // last node is journaled too, so rollback restores position of its element
+        if(this._journal !== undefined) {
+            this._journalNode(0);
+            this._journalNode(this._heap_size);
+        }
+        this._heap[0] = this._heap[this._heap_size];
+        this._heap_links[0] = this._heap_links[this._heap_size];
+        this._positions[this._heap_links[0]] = 0;
         this._restoreDown(0);
         let result: T = this._elems[max];
+        if(this._observed)
+            this._notifyDequeue(result, priority);
         return result;
     }
 
@@ -310,7 +906,54 @@ class PriorityQueue<T> implements IPriorityQueue<T> {
     public peek(): T {
         if(this._heap_size == 0)
             throw new InvalidOperationException('The queue is empty.');
-        return this._elems[this._heap[1]];
+        return this._elems[this._heap_links[0]];
+    }
+
+    /**
+     * Returns the extreme (minimal) element with its priority from the queue without removing it.
+     * 
+     * @returns The extreme (minimal) element with its priority
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public peekEntry(): IElementPriorityPair<T, TPriority> {
+        if(this._heap_size == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        return { element: this._elems[this._heap_links[0]], priority: this._heap[0] };
+    }
+
+    /**
+     * Removes and returns up to n extreme elements from the queue in priority order.
+     * 
+     * @param n - maximal number of elements
+     * @returns dequeued elements, fewer than n if the queue runs out of elements
+     */
+    public dequeueMany(n: number): Array<T> {
+        let result: Array<T> = [];
+        while(result.length < n && this._heap_size > 0)
+            result.push(this.dequeue());
+        return result;
+    }
+
+    /**
+     * Returns up to n extreme elements in priority order without changing the queue (partial sort).
+     * 
+     * @remarks Takes O(n k log n) time regardless of size of the queue, see {@link orderedItems}.
+     * 
+     * @param n - maximal number of elements
+     * @returns elements, fewer than n if the queue has less elements
+     */
+    public peekMany(n: number): Array<T> {
+        let result: Array<T> = [];
+        if(n <= 0)
+            return result;
+        for(let elem of this.orderedItems()) {
+            result.push(elem);
+            if(result.length >= n)
+                break;
+        }
+        return result;
     }
 
     /** 
@@ -318,16 +961,35 @@ class PriorityQueue<T> implements IPriorityQueue<T> {
      * 
      * @throws {@link InvalidOperationException}
      * This exception is thrown if queue out of elements.
+     * 
+     * @throws {@link ArgumentException}
+     * This exception is thrown in strict mode if priority is invalid.
      */
-    public enqueueDequeue(elem: T, priority: number): T {
+    public enqueueDequeue(elem: T, priority: TPriority): T {
+        if(this._heap_size == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        if(this._strict)
+            this._checkPriority(priority);
+        this._acceptPriority(priority);
         let result: T;
-        if(priority <= this._heap[0]) {
+
+        // in stable mode root wins ties, cause it was enqueued earlier
+        if(this._stable ? this._less(priority, this._heap[0]) : !this._less(this._heap[0], priority)) {
             result = elem;
         } else {
-            result = this._elems[this._heap[1]];
+            result = this._elems[this._heap_links[0]];
+            if(this._observed)
+                this._notifyDequeue(result, this._heap[0]);
+            if(this._journal !== undefined) {
+                this._journalNode(0);
+                this._journalSlot(this._heap_links[0]);
+            }
             this._heap[0] = priority;
-            this._elems[this._heap[1]] = elem;
+            this._elems[this._heap_links[0]] = elem;
+            this._stamps[this._heap_links[0]] = ++this._stamp_counter;
             this._restoreDown(0);
+            if(this._observed)
+                this._notifyEnqueue(elem, priority);
         }
         return result;
     }
@@ -337,36 +999,743 @@ class PriorityQueue<T> implements IPriorityQueue<T> {
      * 
      * @throws {@link InvalidOperationException}
      * This exception is thrown if queue out of elements.
+     * 
+     * @throws {@link ArgumentException}
+     * This exception is thrown in strict mode if priority is invalid.
      */
-    public dequeueEnqueue(elem: T, priority: number): T {
+    public dequeueEnqueue(elem: T, priority: TPriority): T {
         if(this._heap_size == 0)
             throw new InvalidOperationException('The queue is empty.');
+        if(this._strict)
+            this._checkPriority(priority);
+        this._acceptPriority(priority);
         let result: T;
-        result = this._elems[this._heap[1]];
+        result = this._elems[this._heap_links[0]];
+        if(this._observed)
+            this._notifyDequeue(result, this._heap[0]);
+        if(this._journal !== undefined) {
+            this._journalNode(0);
+            this._journalSlot(this._heap_links[0]);
+        }
         this._heap[0] = priority;
-        this._elems[this._heap[1]] = elem;
+        this._elems[this._heap_links[0]] = elem;
+        this._stamps[this._heap_links[0]] = ++this._stamp_counter;
         this._restoreDown(0);
+        if(this._observed)
+            this._notifyEnqueue(elem, priority);
         return result;
     }
 
-    /** @inheritDoc IPriorityQueue.enqueueRange */
-    public enqueueRange(range: Array<IElementPriorityPair<T>>): void {
+    /**
+     * @inheritDoc IPriorityQueue.enqueueRange
+     * 
+     * @returns handles of elements in the same order as in range
+     * 
+     * @throws {@link ArgumentException}
+     * This exception is thrown in strict mode if some priority is invalid, no element is added then.
+     */
+    public enqueueRange(range: Array<IElementPriorityPair<T, TPriority>>): Array<QueueHandle> {
+        let handles: Array<QueueHandle> = [];
+        if(this._strict)
+            range.forEach(pair => this._checkPriority(pair.priority));
         if(range.length < this._heap_size / Math.log2(this._heap_size)) {
             range.forEach(pair => {
-                this.enqueue(pair.element, pair.priority);
+                handles.push(this.enqueue(pair.element, pair.priority));
             });
         } else {
-            // TODO: optimize here
+
+            // append nodes and heapify once
             let index: number;
+            this.ensureCapacity(this._heap_size + range.length);
             for(let i = 0; i < range.length; i++) {
+                this._acceptPriority(range[i].priority);
                 index = this._addElem(range[i].element);
-                this._heap[(this._heap_size+i)*2] = range[i].priority;
-                this._heap[(this._heap_size+i)*2+1] = index;
+                if(this._journal !== undefined)
+                    this._journalNode(this._heap_size+i);
+                this._heap[this._heap_size+i] = range[i].priority;
+                this._heap_links[this._heap_size+i] = index;
+                this._positions[index] = this._heap_size + i;
+                handles.push(new QueueHandle(this, index, this._stamps[index]));
+                if(this._observed)
+                    this._notifyEnqueue(range[i].element, range[i].priority);
+            }
+            this._heap_size += range.length;
+            this._heapify();
+        }
+        return handles;
+    }
+
+    /**
+     * Checks whether element referenced by handle is still in the queue.
+     * 
+     * @param handle - handle returned by {@link enqueue}
+     * @returns `false` if element was dequeued, removed or handle is issued by another queue
+     */
+    public contains(handle: QueueHandle): boolean {
+        return this._nodeOf(handle) >= 0;
+    }
+
+    /**
+     * Changes priority of element referenced by handle (decrease-key / increase-key).
+     * 
+     * @param handle - handle returned by {@link enqueue}
+     * @param priority - new priority
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if handle is stale.
+     * 
+     * @throws {@link ArgumentException}
+     * This exception is thrown in strict mode if priority is invalid.
+     */
+    public updatePriority(handle: QueueHandle, priority: TPriority): void {
+        let node: number = this._nodeOf(handle);
+        if(node < 0)
+            throw new InvalidOperationException('The handle does not belong to element of the queue.');
+        if(this._strict)
+            this._checkPriority(priority);
+        this._acceptPriority(priority);
+        let old: TPriority = this._heap[node];
+        if(this._journal !== undefined)
+            this._journalNode(node);
+        this._heap[node] = priority;
+        if(this._less(priority, old))
+            this._restoreUp(node);
+        else
+            this._restoreDown(node);
+    }
+
+    /**
+     * Removes element referenced by handle from the queue.
+     * 
+     * @param handle - handle returned by {@link enqueue}
+     * @returns removed element
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if handle is stale.
+     */
+    public remove(handle: QueueHandle): T {
+        let node: number = this._nodeOf(handle);
+        if(node < 0)
+            throw new InvalidOperationException('The handle does not belong to element of the queue.');
+        let result: T = this._elems[handle._index];
+        let priority: TPriority = this._heap[node];
+        this._releaseElem(handle._index);
+        this._heap_size--;
+        if(this._journal !== undefined) {
+            this._journalNode(node);
+            this._journalNode(this._heap_size);
+        }
+
+        // move last node on place of removed one and restore heap in
+        // direction depends on its priority
+        if(node != this._heap_size) {
+            this._heap[node] = this._heap[this._heap_size];
+            this._heap_links[node] = this._heap_links[this._heap_size];
+            this._positions[this._heap_links[node]] = node;
+            if(node > 0 && this._lessNodes(node, Math.floor((node - 1) / this._k)))
+                this._restoreUp(node);
+            else
+                this._restoreDown(node);
+        }
+        if(this._observed)
+            this._notifyDequeue(result, priority);
+        return result;
+    }
+
+    /**
+     * Removes all elements that match the predicate. Remaining nodes are compacted and heap is
+     * rebuilt once, so it takes O(n) time instead of O(m log n) for m calls of {@link remove}.
+     * 
+     * @remarks Handles of remaining elements stay valid. Predicate is called for every element before
+     * the queue is changed, so exception thrown by predicate leaves the queue intact.
+     * 
+     * @param predicate - test of element and its priority
+     * @returns number of removed elements
+     */
+    public removeWhere(predicate: (element: T, priority: TPriority) => boolean): number {
+        let matches: Uint8Array = new Uint8Array(this._heap_size);
+        let removed: number = 0;
+        for(let i = 0; i < this._heap_size; i++) {
+            if(predicate(this._elems[this._heap_links[i]], this._heap[i])) {
+                matches[i] = 1;
+                removed++;
+            }
+        }
+        if(removed == 0)
+            return 0;
+        let removed_entries: Array<IElementPriorityPair<T, TPriority>> = [];
+        let size: number = 0;
+        if(this._journal !== undefined)
+            for(let i = 0; i < this._heap_size; i++)
+                this._journalNode(i);
+        for(let i = 0; i < this._heap_size; i++) {
+            let link: number = this._heap_links[i];
+            if(matches[i] != 0) {
+                this._releaseElem(link);
+                if(this._observed)
+                    removed_entries.push({ element: this._elems[link], priority: this._heap[i] });
+                continue;
+            }
+            this._heap[size] = this._heap[i];
+            this._heap_links[size] = link;
+            this._positions[link] = size;
+            size++;
+        }
+
+        // release references to priorities behind heap
+        if(Array.isArray(this._heap))
+            this._heap.fill(undefined, size, this._heap_size);
+        this._heap_size = size;
+        this._heapify();
+        removed_entries.forEach(entry => this._notifyDequeue(entry.element, entry.priority));
+        return removed;
+    }
+
+    /**
+     * Moves or copies all elements of other queue with their priorities into this queue. Nodes are appended
+     * in bulk and heap is restored once, so it takes O(n + m) time instead of m enqueues.
+     *
+     * @remarks Queues may have different number of child nodes, merged elements are laid out by `k` of this queue.
+     * In stable mode merged elements are ordered after elements of this queue with equal priorities and keep
+     * their relative order. Handles issued by other queue don't refer to merged elements.
+     *
+     * @param other - queue to merge
+     * @param consume - whether to leave other queue empty (default `false`, other queue is untouched)
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue is merged with itself or queues have different comparers.
+     * 
+     * @throws {@link ArgumentException}
+     * This exception is thrown in strict mode if some merged priority is invalid.
+     */
+    public merge(other: PriorityQueue<T, TPriority>, consume: boolean = false): void {
+        if(other === this)
+            throw new InvalidOperationException('The queue cannot be merged with itself.');
+        if(other._comparer !== this._comparer)
+            throw new InvalidOperationException('Queues with different comparers cannot be merged.');
+        if(this._strict)
+            for(let i = 0; i < other._heap_size; i++)
+                this._checkPriority(other._heap[i]);
+        let count: number = other._heap_size;
+        let size: number = this._heap_size;
+        this.ensureCapacity(this._elems_size + Math.max(0, count - this._exited_indexes_count));
+
+        // shift sequence numbers of other queue behind own ones, so they stay unique and ordered
+        let base: number = this._stamp_counter;
+        for(let i = 0; i < count; i++) {
+            let index: number = this._addElem(other._elems[other._heap_links[i]]);
+            this._stamps[index] = base + other._stamps[other._heap_links[i]];
+            this._acceptPriority(other._heap[i]);
+            if(this._journal !== undefined)
+                this._journalNode(size + i);
+            this._heap[size + i] = other._heap[i];
+            this._heap_links[size + i] = index;
+            this._positions[index] = size + i;
+        }
+        this._stamp_counter = base + other._stamp_counter;
+        this._heap_size = size + count;
+
+        // few nodes are cheaper to restore up, otherwise heapify all internal nodes
+        if(count < size / Math.log2(size)) {
+            for(let i = size; i < this._heap_size; i++)
+                this._restoreUp(i);
+        } else {
+            this._heapify();
+        }
+        if(this._observed)
+            for(let i = 0; i < count; i++)
+                this._notifyEnqueue(other._elems[other._heap_links[i]], other._heap[i]);
+        if(consume)
+            other.clear();
+    }
+
+    /**
+     * Creates new queue containing elements of all queues with their priorities. Source queues are untouched.
+     * New queue takes `k`, comparer and stable mode of the first queue.
+     *
+     * @param queues - queues to merge
+     * @returns merged queue
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queues have different comparers.
+     */
+    public static merge<T, TPriority = number>(...queues: Array<PriorityQueue<T, TPriority>>): PriorityQueue<T, TPriority> {
+        if(queues.length == 0)
+            return new PriorityQueue<T, TPriority>();
+        let first: PriorityQueue<T, TPriority> = queues[0];
+        let result = new PriorityQueue<T, TPriority>([], first._k, {
+            comparer: first._comparer,
+            stable: first._stable,
+            strict: first._strict,
+            growthFactor: first._growth_factor,
+            initialCapacity: queues.reduce((sum, queue) => sum + queue._heap_size, 0)
+        });
+        queues.forEach(queue => result.merge(queue));
+        return result;
+    }
+
+    /**
+     * Creates independent copy of the queue with the same options, heap layout and free slots.
+     * Buffers are copied directly, so it takes O(capacity) time without comparisons.
+     * 
+     * @remarks Handles issued by this queue don't refer to elements of the copy. Metrics and listeners
+     * aren't copied. Elements themselves are shared, not cloned.
+     * 
+     * @returns copy of the queue
+     */
+    public clone(): PriorityQueue<T, TPriority> {
+        let queue = new PriorityQueue<T, TPriority>([], this._k, {
+            comparer: this._comparer,
+            stable: this._stable,
+            strict: this._strict,
+            growthFactor: this._growth_factor,
+            initialCapacity: 0
+        });
+        queue._heap = (this._heap as Float64Array | Array<TPriority>).slice() as PriorityBuffer<TPriority>;
+        queue._numeric = this._numeric;
+        queue._heap_links = this._heap_links.slice();
+        queue._exited_indexes = this._exited_indexes.slice();
+        queue._positions = this._positions.slice();
+        queue._stamps = this._stamps.slice();
+        queue._elems = this._elems.slice(0, this._elems_size);
+        queue._capacity = this._capacity;
+        queue._heap_size = this._heap_size;
+        queue._elems_size = this._elems_size;
+        queue._exited_indexes_count = this._exited_indexes_count;
+        queue._stamp_counter = this._stamp_counter;
+        return queue;
+    }
+
+    /**
+     * Builds queue of the same kind from some heap nodes keeping their priorities and sequence numbers.
+     * 
+     * @param nodes - indexes of heap nodes in heap order
+     * @param select - creates element of new queue
+     * @returns new queue
+     */
+    private _derive<U>(nodes: Array<number>, select: (element: T, priority: TPriority) => U): PriorityQueue<U, TPriority> {
+        let queue = new PriorityQueue<U, TPriority>([], this._k, {
+            comparer: this._comparer,
+            stable: this._stable,
+            strict: this._strict,
+            growthFactor: this._growth_factor,
+            initialCapacity: nodes.length
+        });
+        for(let i = 0; i < nodes.length; i++) {
+            let link: number = this._heap_links[nodes[i]];
+            queue._acceptPriority(this._heap[nodes[i]]);
+            queue._heap[i] = this._heap[nodes[i]];
+            queue._heap_links[i] = i;
+            queue._elems[i] = select(this._elems[link], this._heap[nodes[i]]);
+            queue._positions[i] = i;
+            queue._stamps[i] = this._stamps[link];
+        }
+        queue._heap_size = nodes.length;
+        queue._elems_size = nodes.length;
+        queue._stamp_counter = this._stamp_counter;
+        queue._heapify();
+        return queue;
+    }
+
+    /**
+     * Creates new queue with elements transformed by callback and the same priorities.
+     * New queue has the same options and heap layout, so it's built in O(n) time without swaps.
+     * 
+     * @param callback - transforms element and its priority to new element
+     * @returns new queue
+     */
+    public map<U>(callback: (element: T, priority: TPriority) => U): PriorityQueue<U, TPriority> {
+        let nodes: Array<number> = new Array(this._heap_size);
+        for(let i = 0; i < this._heap_size; i++)
+            nodes[i] = i;
+        return this._derive(nodes, callback);
+    }
+
+    /**
+     * Creates new queue with elements that match the predicate. The queue isn't changed,
+     * use {@link removeWhere} to filter it in place.
+     * 
+     * @param predicate - test of element and its priority
+     * @returns new queue with the same options
+     */
+    public filter(predicate: (element: T, priority: TPriority) => boolean): PriorityQueue<T, TPriority> {
+        let nodes: Array<number> = [];
+        for(let i = 0; i < this._heap_size; i++)
+            if(predicate(this._elems[this._heap_links[i]], this._heap[i]))
+                nodes.push(i);
+        return this._derive(nodes, element => element);
+    }
+
+    /**
+     * Records old values of heap node to journal.
+     * 
+     * @param index - index of node
+     */
+    private _journalNode(index: number) {
+        (this._journal as Array<JournalRecord<T, TPriority>>).push({ kind: 'node', index: index, priority: this._heap[index], link: this._heap_links[index] });
+    }
+
+    /**
+     * Records old element and stamp of slot to journal.
+     * 
+     * @param index - index of slot in {@link _elems}
+     */
+    private _journalSlot(index: number) {
+        (this._journal as Array<JournalRecord<T, TPriority>>).push({ kind: 'slot', index: index, element: this._elems[index], stamp: this._stamps[index] });
+    }
+
+    /**
+     * Records old entry of free slots stack to journal.
+     * 
+     * @param index - index of entry in {@link _exited_indexes}
+     */
+    private _journalFree(index: number) {
+        (this._journal as Array<JournalRecord<T, TPriority>>).push({ kind: 'free', index: index, slot: this._exited_indexes[index] });
+    }
+
+    /**
+     * Returns depth of active checkpoint.
+     * 
+     * @param checkpoint - token returned by {@link checkpoint}
+     * @returns index of checkpoint in {@link _checkpoints}
+     */
+    private _depthOf(checkpoint: QueueCheckpoint): number {
+        let depth: number = checkpoint._owner === this ? this._checkpoints.lastIndexOf(checkpoint) : -1;
+        if(depth < 0)
+            throw new InvalidOperationException('The checkpoint is not active.');
+        return depth;
+    }
+
+    /**
+     * Drops checkpoints from depth and stops journaling if there are no more active ones.
+     * 
+     * @param depth - depth of the outermost dropped checkpoint
+     */
+    private _dropCheckpoints(depth: number) {
+        this._checkpoints.length = depth;
+        if(depth == 0) {
+            this._swap = this._unjournaled_swap as (a: number, b: number) => void;
+            this._unjournaled_swap = undefined;
+            this._journal = undefined;
+        }
+    }
+
+    /**
+     * Starts transaction: changes of the queue are journaled until the checkpoint is committed or rolled back.
+     * Checkpoints may be nested, inner checkpoint must be finished before outer one, otherwise it's finished
+     * together with outer one.
+     * 
+     * @remarks The first checkpoint shadows {@link _swap} with journaling wrapper on this instance, so queue
+     * without checkpoints pays single branch per operation. {@link shrink} and {@link trimExcess} are
+     * forbidden while checkpoint is active.
+     * 
+     * @returns token of checkpoint for {@link commit} or {@link rollback}
+     */
+    public checkpoint(): QueueCheckpoint {
+        if(this._journal === undefined) {
+            let swap = this._swap;
+            this._swap = (a: number, b: number) => {
+                this._journalNode(a);
+                this._journalNode(b);
+                swap.call(this, a, b);
+            };
+            this._unjournaled_swap = swap;
+            this._journal = [];
+        }
+        let checkpoint = new QueueCheckpoint(this, this._journal.length, this._heap_size, this._elems_size, this._exited_indexes_count);
+        this._checkpoints.push(checkpoint);
+        return checkpoint;
+    }
+
+    /**
+     * Accepts changes made since checkpoint. Changes stay journaled if there are outer checkpoints, so
+     * they still may be rolled back with them. Checkpoints nested in this one are committed too.
+     * 
+     * @param checkpoint - token returned by {@link checkpoint}
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if checkpoint isn't active.
+     */
+    public commit(checkpoint: QueueCheckpoint): void {
+        this._dropCheckpoints(this._depthOf(checkpoint));
+    }
+
+    /**
+     * Undoes all changes made since checkpoint, including ones of nested checkpoints. It takes time
+     * proportional to the number of changes, not to the size of the queue.
+     * 
+     * @remarks Handles of elements that were in the queue at checkpoint become valid again, handles
+     * issued after it go stale. Listeners aren't called and metrics aren't reverted.
+     * 
+     * @param checkpoint - token returned by {@link checkpoint}
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if checkpoint isn't active.
+     */
+    public rollback(checkpoint: QueueCheckpoint): void {
+        let depth: number = this._depthOf(checkpoint);
+        let journal: Array<JournalRecord<T, TPriority>> = this._journal as Array<JournalRecord<T, TPriority>>;
+
+        // undo records in reverse order, so the oldest value of each place wins
+        for(let i = journal.length - 1; i >= checkpoint._journal_length; i--) {
+            let record: JournalRecord<T, TPriority> = journal[i];
+            if(record.kind == 'node') {
+                this._heap[record.index] = record.priority;
+                this._heap_links[record.index] = record.link;
+            } else if(record.kind == 'slot') {
+                this._elems[record.index] = record.element;
+                this._stamps[record.index] = record.stamp;
+            } else {
+                this._exited_indexes[record.index] = record.slot;
             }
-            for(let i = Math.floor((this._heap_size - 1) / this._k); i >= 0; i--)
-                this._restoreDown(i);
         }
-    } 
+        this._heap_size = checkpoint._heap_size;
+        this._elems_size = checkpoint._elems_size;
+        this._exited_indexes_count = checkpoint._exited_indexes_count;
+        if(this._elems.length > this._elems_size)
+            this._elems.length = this._elems_size;
+
+        // every element that left its node has the node journaled, so restored nodes fix all positions
+        for(let i = checkpoint._journal_length; i < journal.length; i++) {
+            let record: JournalRecord<T, TPriority> = journal[i];
+            if(record.kind == 'node' && record.index < this._heap_size)
+                this._positions[this._heap_links[record.index]] = record.index;
+        }
+        journal.length = checkpoint._journal_length;
+        this._dropCheckpoints(depth);
+    }
+
+    /**
+     * Checks invariants of the queue: heap property (including `NaN` priorities, which break it silently)
+     * and bookkeeping of slots in {@link _elems}, {@link _exited_indexes}, {@link _positions} and {@link _stamps}.
+     * 
+     * @remarks Takes O(n) time and memory, so it's intended for tests and debug builds.
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if some invariant is broken, message describes the first found violation.
+     */
+    public validate(): void {
+        if(this._heap_size + this._exited_indexes_count != this._elems_size || this._elems_size > this._capacity)
+            throw new InvalidOperationException(`Sizes are inconsistent: ${this._heap_size} nodes, ` +
+                `${this._exited_indexes_count} free slots, ${this._elems_size} slots, capacity ${this._capacity}.`);
+
+        // each slot is either linked by exactly one node or free exactly once
+        let used: Uint8Array = new Uint8Array(this._elems_size);
+        for(let i = 0; i < this._heap_size; i++) {
+            let index: number = this._heap_links[i];
+            if(index < 0 || index >= this._elems_size || used[index] != 0)
+                throw new InvalidOperationException(`Node ${i} has invalid link ${index}.`);
+            used[index] = 1;
+            if(this._positions[index] != i)
+                throw new InvalidOperationException(`Position of slot ${index} is ${this._positions[index]} instead of ${i}.`);
+            if(this._stamps[index] <= 0 || this._stamps[index] > this._stamp_counter)
+                throw new InvalidOperationException(`Slot ${index} linked by node ${i} has invalid stamp.`);
+            let priority: TPriority = this._heap[i];
+            if(priority !== priority)
+                throw new InvalidOperationException(`Node ${i} has NaN priority.`);
+            if(i > 0 && this._lessNodes(i, Math.floor((i - 1) / this._k)))
+                throw new InvalidOperationException(`Heap property is broken at node ${i}.`);
+        }
+        for(let i = 0; i < this._exited_indexes_count; i++) {
+            let index: number = this._exited_indexes[i];
+            if(index < 0 || index >= this._elems_size || used[index] != 0)
+                throw new InvalidOperationException(`Free slot ${index} is linked or released twice.`);
+            used[index] = 2;
+            if(this._stamps[index] != 0)
+                throw new InvalidOperationException(`Free slot ${index} has stamp.`);
+        }
+    }
+
+    /**
+     * Builds queue from heap layout without heapify.
+     * 
+     * @param k - number of child nodes
+     * @param options - options of queue
+     * @param sequence - last issued sequence number
+     * @param entries - nodes of heap in heap order with sequence numbers of elements
+     * @returns restored queue
+     * 
+     * @throws {@link SerializationException}
+     * This exception is thrown if layout is invalid.
+     */
+    private static _restore<T, TPriority>(k: number, options: IPriorityQueueOptions<TPriority>, sequence: number,
+        entries: Array<IElementPriorityPair<T, TPriority> & { sequence: number }>): PriorityQueue<T, TPriority> {
+        if(!Number.isInteger(k) || k < 1)
+            throw new SerializationException(`Invalid number of child nodes: ${k}.`);
+        if(!Number.isInteger(sequence) || sequence < 0)
+            throw new SerializationException(`Invalid sequence number of snapshot: ${sequence}.`);
+        let queue = new PriorityQueue<T, TPriority>([], k, { ...options, initialCapacity: entries.length });
+        for(let i = 0; i < entries.length; i++) {
+            let stamp: number = entries[i].sequence;
+            if(!Number.isInteger(stamp) || stamp < 1 || stamp > sequence)
+                throw new SerializationException(`Invalid sequence number of node ${i}.`);
+            queue._acceptPriority(entries[i].priority);
+            queue._heap[i] = entries[i].priority;
+            queue._heap_links[i] = i;
+            queue._elems[i] = entries[i].element;
+            queue._positions[i] = i;
+            queue._stamps[i] = stamp;
+        }
+        queue._heap_size = entries.length;
+        queue._elems_size = entries.length;
+        queue._stamp_counter = sequence;
+        for(let i = 1; i < entries.length; i++)
+            if(queue._lessNodes(i, Math.floor((i - 1) / k)))
+                throw new SerializationException(`Heap property is broken at node ${i}.`);
+        return queue;
+    }
+
+    /**
+     * Returns JSON snapshot of the queue: heap layout, `k` and tie-break state, so
+     * {@link fromJSON} restores the queue without re-sorting.
+     * 
+     * @returns JSON snapshot, suitable for `JSON.stringify`
+     */
+    public toJSON(): IPriorityQueueJSON<T, TPriority> {
+        let entries: Array<IElementPriorityPair<T, TPriority> & { sequence: number }> = new Array(this._heap_size);
+        for(let i = 0; i < this._heap_size; i++)
+            entries[i] = { element: this._elems[this._heap_links[i]], priority: this._heap[i], sequence: this._stamps[this._heap_links[i]] };
+        return {
+            version: PriorityQueue._format_version,
+            k: this._k,
+            stable: this._stable,
+            sequence: this._stamp_counter,
+            entries: entries
+        };
+    }
+
+    /**
+     * Restores queue from JSON snapshot returned by {@link toJSON}.
+     * 
+     * @param data - JSON snapshot or its string
+     * @param reviver - converts parsed elements and priorities, e.g. strings back to Date
+     * @param options - options of queue that aren't stored in snapshot, e.g. comparer
+     * @returns restored queue
+     * 
+     * @throws {@link SerializationException}
+     * This exception is thrown if snapshot is corrupt or has unsupported version.
+     */
+    public static fromJSON<T, TPriority = number>(data: string | IPriorityQueueJSON<unknown, unknown>,
+        reviver?: (key: 'element' | 'priority', value: unknown) => unknown,
+        options: IPriorityQueueOptions<TPriority> = {}): PriorityQueue<T, TPriority> {
+        let parsed: unknown;
+        try {
+            parsed = typeof data === 'string' ? JSON.parse(data) : data;
+        } catch(e) {
+            throw new SerializationException('Snapshot is not valid JSON.');
+        }
+        if(parsed === null || typeof parsed !== 'object' ||
+            (parsed as IPriorityQueueJSON<unknown, unknown>).version !== PriorityQueue._format_version)
+            throw new SerializationException('Unsupported version of snapshot.');
+        let json = parsed as IPriorityQueueJSON<unknown, unknown>;
+        if(!Array.isArray(json.entries) || typeof json.sequence !== 'number')
+            throw new SerializationException('Snapshot is corrupt.');
+
+        // elements and priorities are trusted to be of queue types after reviver
+        let entries = json.entries.map((entry: unknown) => {
+            if(entry === null || typeof entry !== 'object')
+                throw new SerializationException('Snapshot is corrupt.');
+            let node = entry as IElementPriorityPair<unknown, unknown> & { sequence: number };
+            return {
+                element: (reviver === undefined ? node.element : reviver('element', node.element)) as T,
+                priority: (reviver === undefined ? node.priority : reviver('priority', node.priority)) as TPriority,
+                sequence: node.sequence
+            };
+        });
+        return PriorityQueue._restore<T, TPriority>(json.k, { ...options, stable: json.stable === true }, json.sequence, entries);
+    }
+
+    /**
+     * Returns versioned binary snapshot of the queue: heap layout, `k` and tie-break state,
+     * so {@link deserialize} restores the queue without re-sorting.
+     * 
+     * @remarks Priorities are stored as 64-bit floats, so only numeric priorities are supported.
+     * 
+     * @param elementCodec - codec of elements (default UTF-8 encoded JSON)
+     * @returns binary snapshot
+     * 
+     * @throws {@link SerializationException}
+     * This exception is thrown if some priority isn't a number.
+     */
+    public serialize(elementCodec: IElementCodec<T> = jsonElementCodec as IElementCodec<T>): Uint8Array {
+        let encoded: Array<Uint8Array> = new Array(this._heap_size);
+        let length: number = 24;
+        for(let i = 0; i < this._heap_size; i++) {
+            if(typeof this._heap[i] !== 'number')
+                throw new SerializationException('Only numeric priorities can be serialized.');
+            encoded[i] = elementCodec.encode(this._elems[this._heap_links[i]]);
+            length += 20 + encoded[i].length;
+        }
+
+        // header: magic, version, flags, k, count, last sequence number
+        let bytes: Uint8Array = new Uint8Array(length);
+        let view: DataView = new DataView(bytes.buffer);
+        view.setUint32(0, PriorityQueue._binary_magic, true);
+        view.setUint16(4, PriorityQueue._format_version, true);
+        view.setUint16(6, this._stable ? 1 : 0, true);
+        view.setUint32(8, this._k, true);
+        view.setUint32(12, this._heap_size, true);
+        view.setFloat64(16, this._stamp_counter, true);
+
+        // nodes: priority, sequence number, length of element and its bytes
+        let offset: number = 24;
+        for(let i = 0; i < this._heap_size; i++) {
+            view.setFloat64(offset, this._heap[i] as unknown as number, true);
+            view.setFloat64(offset + 8, this._stamps[this._heap_links[i]], true);
+            view.setUint32(offset + 16, encoded[i].length, true);
+            bytes.set(encoded[i], offset + 20);
+            offset += 20 + encoded[i].length;
+        }
+        return bytes;
+    }
+
+    /**
+     * Restores queue from binary snapshot returned by {@link serialize}.
+     * 
+     * @param bytes - binary snapshot
+     * @param elementCodec - codec of elements used by {@link serialize} (default UTF-8 encoded JSON)
+     * @param options - options of queue that aren't stored in snapshot, e.g. comparer
+     * @returns restored queue
+     * 
+     * @throws {@link SerializationException}
+     * This exception is thrown if snapshot is corrupt or has unsupported version.
+     */
+    public static deserialize<T, TPriority = number>(bytes: Uint8Array, elementCodec: IElementCodec<T> = jsonElementCodec as IElementCodec<T>,
+        options: IPriorityQueueOptions<TPriority> = {}): PriorityQueue<T, TPriority> {
+        let view: DataView = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        if(bytes.length < 24 || view.getUint32(0, true) != PriorityQueue._binary_magic)
+            throw new SerializationException('Snapshot is corrupt.');
+        if(view.getUint16(4, true) != PriorityQueue._format_version)
+            throw new SerializationException('Unsupported version of snapshot.');
+        let stable: boolean = (view.getUint16(6, true) & 1) != 0;
+        let k: number = view.getUint32(8, true);
+        let count: number = view.getUint32(12, true);
+        let sequence: number = view.getFloat64(16, true);
+        let entries: Array<IElementPriorityPair<T, TPriority> & { sequence: number }> = [];
+        let offset: number = 24;
+        for(let i = 0; i < count; i++) {
+            if(offset + 20 > bytes.length)
+                throw new SerializationException('Snapshot is truncated.');
+            let length: number = view.getUint32(offset + 16, true);
+            if(offset + 20 + length > bytes.length)
+                throw new SerializationException('Snapshot is truncated.');
+            let element: T;
+            try {
+                element = elementCodec.decode(bytes.subarray(offset + 20, offset + 20 + length));
+            } catch(e) {
+                throw new SerializationException(`Element of node ${i} can't be decoded.`);
+            }
+            entries.push({
+                element: element,
+                priority: view.getFloat64(offset, true) as unknown as TPriority,
+                sequence: view.getFloat64(offset + 8, true)
+            });
+            offset += 20 + length;
+        }
+        if(offset != bytes.length)
+            throw new SerializationException('Snapshot has trailing bytes.');
+        return PriorityQueue._restore<T, TPriority>(k, { ...options, stable: stable }, sequence, entries);
+    }
 }
 
-export { PriorityQueue, IPriorityQueue, IElementPriorityPair, InvalidOperationException }
\ No newline at end of file
+export { PriorityQueue }
\ No newline at end of file
@@ -0,0 +1,22 @@
+/**
+ * Base class of exceptions thrown by queues of the library, so all of them
+ * may be caught by single `instanceof` check. It's real `Error` with stack trace.
+ */
+export class PriorityQueueException extends Error {
+    
+    /**
+     * Name of exception
+     * 
+     * @defaultValue `PriorityQueueException`
+     */
+    name: string = 'PriorityQueueException';
+
+    /**
+     * Default constructor 
+     * 
+     * @param msg could provide some details about why exception happend
+     */
+    constructor(msg: string) {
+        super(msg);
+    }
+}
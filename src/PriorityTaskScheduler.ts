@@ -0,0 +1,264 @@
+import { ArgumentException } from "./ArgumentException";
+import { IPriorityTaskSchedulerOptions } from "./IPriorityTaskSchedulerOptions";
+import { ITaskOptions } from "./ITaskOptions";
+import { PriorityQueue } from "./PriorityQueue";
+import { QueueHandle } from "./QueueHandle";
+import { TaskCanceledException } from "./TaskCanceledException";
+import { TimeoutException } from "./TimeoutException";
+
+/**
+ * Async task function. It gets signal that is aborted on cancellation or timeout of the task.
+ */
+export type TaskFunction<TResult> = (signal: AbortSignal) => Promise<TResult> | TResult;
+
+/**
+ * Scheduled task with its settlement callbacks. Tasks of different result types share one queue,
+ * so result is `unknown` here and {@link PriorityTaskScheduler.schedule} narrows it back.
+ */
+interface IScheduledTask {
+    run: TaskFunction<unknown>;
+    resolve: (value: unknown) => void;
+    reject: (reason: unknown) => void;
+    controller: AbortController;
+    timeout?: number;
+    handle?: QueueHandle;
+    settled: boolean;
+
+    /**
+     * Removes abort listener of caller signal.
+     */
+    cleanup: () => void;
+}
+
+/**
+ * Prioritized runner of async tasks built on {@link PriorityQueue}. Runs at most `concurrency` tasks
+ * at a time, starting pending task with the lowest priority value first.
+ *
+ * @typeParam TPriority - Specifies the type of priority associated with scheduled tasks (default `number`).
+ *
+ * @remarks Tasks with equal priorities are started in order of scheduling unless `stable` option is `false`.
+ * Cancelled or timed out running task is rejected immediately, but keeps its slot until it actually settles,
+ * so tasks should honor their signal.
+ */
+export class PriorityTaskScheduler<TPriority = number> {
+
+    /**
+     * Pending tasks.
+     */
+    private readonly _queue: PriorityQueue<IScheduledTask, TPriority>;
+
+    /**
+     * Maximum number of simultaneously running tasks.
+     */
+    private readonly _concurrency: number;
+
+    /**
+     * Number of running tasks.
+     */
+    private _running: number = 0;
+
+    /**
+     * Whether starting of pending tasks is paused.
+     */
+    private _paused: boolean;
+
+    /**
+     * Waiters of {@link onEmpty}.
+     */
+    private _empty_waiters: Array<() => void> = [];
+
+    /**
+     * Waiters of {@link onIdle}.
+     */
+    private _idle_waiters: Array<() => void> = [];
+
+    /**
+     * Gets the number of pending tasks.
+     */
+    public get pending(): number {
+        return this._queue.count;
+    }
+
+    /**
+     * Gets the number of running tasks.
+     */
+    public get running(): number {
+        return this._running;
+    }
+
+    /**
+     * Gets the maximum number of simultaneously running tasks.
+     */
+    public get concurrency(): number {
+        return this._concurrency;
+    }
+
+    /**
+     * Gets whether starting of pending tasks is paused.
+     */
+    public get paused(): boolean {
+        return this._paused;
+    }
+
+    /**
+     * Construcor of scheduler.
+     *
+     * @param k - number of child nodes of underlying queue (recommended 4 or 8)
+     * @param options - concurrency and options of underlying queue
+     *
+     * @throws {@link ArgumentException}
+     * This exception is thrown if concurrency is less than 1.
+     */
+    constructor(k: number = 4, options: IPriorityTaskSchedulerOptions<TPriority> = {}) {
+        this._concurrency = options.concurrency ?? 1;
+        if(!(this._concurrency >= 1))
+            throw new ArgumentException('Concurrency must be at least 1.');
+        this._queue = new PriorityQueue<IScheduledTask, TPriority>([], k, { ...options, stable: options.stable ?? true });
+        this._paused = options.paused ?? false;
+    }
+
+    /**
+     * Settles task once.
+     *
+     * @param task - task to settle
+     * @param settle - callback that resolves or rejects task
+     */
+    private _settle(task: IScheduledTask, settle: () => void) {
+        if(task.settled)
+            return;
+        task.settled = true;
+        task.cleanup();
+        settle();
+    }
+
+    /**
+     * Starts pending tasks while there are free slots and notifies waiters.
+     */
+    private _next() {
+        while(!this._paused && this._running < this._concurrency && this._queue.count > 0)
+            this._start(this._queue.dequeue());
+        if(this._queue.count == 0) {
+            this._empty_waiters.splice(0).forEach(resolve => resolve());
+            if(this._running == 0)
+                this._idle_waiters.splice(0).forEach(resolve => resolve());
+        }
+    }
+
+    /**
+     * Runs task and frees its slot when it settles.
+     *
+     * @param task - task to run
+     */
+    private _start(task: IScheduledTask) {
+        this._running++;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        if(task.timeout !== undefined) {
+            timer = setTimeout(() => {
+                this._settle(task, () => task.reject(new TimeoutException(`The task timed out after ${task.timeout} ms.`)));
+                task.controller.abort();
+            }, task.timeout);
+        }
+        let done = () => {
+            if(timer !== undefined)
+                clearTimeout(timer);
+            this._running--;
+            this._next();
+        };
+        new Promise(resolve => resolve(task.run(task.controller.signal))).then(value => {
+            this._settle(task, () => task.resolve(value));
+            done();
+        }, reason => {
+            this._settle(task, () => task.reject(reason));
+            done();
+        });
+    }
+
+    /**
+     * Schedules task with associated priority.
+     *
+     * @param task - async task function
+     * @param priority - priority of task
+     * @param options - cancellation signal and timeout of task
+     * @returns promise of task result, rejected with {@link TaskCanceledException} on cancellation
+     * and {@link TimeoutException} on timeout
+     */
+    public schedule<TResult>(task: TaskFunction<TResult>, priority: TPriority, options: ITaskOptions = {}): Promise<TResult> {
+        return new Promise<TResult>((resolve, reject) => {
+            let signal: AbortSignal | undefined = options.signal;
+            if(signal?.aborted) {
+                reject(new TaskCanceledException('The task was cancelled.'));
+                return;
+            }
+            let scheduled: IScheduledTask = {
+                run: task,
+                resolve: value => resolve(value as TResult),
+                reject: reject,
+                controller: new AbortController(),
+                timeout: options.timeout,
+                settled: false,
+                cleanup: () => {}
+            };
+
+            // enqueue may throw on invalid priority, so listener is attached only after it
+            scheduled.handle = this._queue.enqueue(scheduled, priority);
+            if(signal !== undefined) {
+                let onAbort = () => {
+                    if(scheduled.handle !== undefined && this._queue.contains(scheduled.handle))
+                        this._queue.remove(scheduled.handle);
+                    this._settle(scheduled, () => reject(new TaskCanceledException('The task was cancelled.')));
+                    scheduled.controller.abort();
+                    this._next();
+                };
+                signal.addEventListener('abort', onAbort);
+                scheduled.cleanup = () => signal?.removeEventListener('abort', onAbort);
+            }
+            this._next();
+        });
+    }
+
+    /**
+     * Pauses starting of pending tasks. Running tasks are not affected.
+     */
+    public pause(): void {
+        this._paused = true;
+    }
+
+    /**
+     * Resumes starting of pending tasks.
+     */
+    public resume(): void {
+        this._paused = false;
+        this._next();
+    }
+
+    /**
+     * Removes all pending tasks rejecting them with {@link TaskCanceledException}. Running tasks are not affected.
+     */
+    public clear(): void {
+        let tasks: Array<IScheduledTask> = Array.from(this._queue.drain());
+        tasks.forEach(task => this._settle(task, () => task.reject(new TaskCanceledException('The task was cancelled.'))));
+        this._next();
+    }
+
+    /**
+     * Returns promise that resolves when there are no pending tasks (some may still run).
+     *
+     * @returns promise of empty queue
+     */
+    public onEmpty(): Promise<void> {
+        if(this._queue.count == 0)
+            return Promise.resolve();
+        return new Promise<void>(resolve => this._empty_waiters.push(resolve));
+    }
+
+    /**
+     * Returns promise that resolves when there are neither pending nor running tasks.
+     *
+     * @returns promise of idle scheduler
+     */
+    public onIdle(): Promise<void> {
+        if(this._queue.count == 0 && this._running == 0)
+            return Promise.resolve();
+        return new Promise<void>(resolve => this._idle_waiters.push(resolve));
+    }
+}
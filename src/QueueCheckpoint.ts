@@ -0,0 +1,50 @@
+/**
+ * Opaque token of checkpoint. Returned by {@link PriorityQueue.checkpoint} and accepted
+ * by {@link PriorityQueue.rollback} and {@link PriorityQueue.commit}.
+ * 
+ * @remarks Token is active until it or some outer checkpoint is committed or rolled back.
+ */
+export class QueueCheckpoint {
+
+    /**
+     * Queue that issued the checkpoint. Don't use directly.
+     */
+    readonly _owner: object;
+
+    /**
+     * Length of journal at the moment of checkpoint. Don't use directly.
+     */
+    readonly _journal_length: number;
+
+    /**
+     * Count of heap nodes at the moment of checkpoint. Don't use directly.
+     */
+    readonly _heap_size: number;
+
+    /**
+     * Count of element slots at the moment of checkpoint. Don't use directly.
+     */
+    readonly _elems_size: number;
+
+    /**
+     * Count of free slots at the moment of checkpoint. Don't use directly.
+     */
+    readonly _exited_indexes_count: number;
+
+    /**
+     * Checkpoints are created by queue only.
+     * 
+     * @param owner - queue that issued the checkpoint
+     * @param journal_length - length of journal
+     * @param heap_size - count of heap nodes
+     * @param elems_size - count of element slots
+     * @param exited_indexes_count - count of free slots
+     */
+    constructor(owner: object, journal_length: number, heap_size: number, elems_size: number, exited_indexes_count: number) {
+        this._owner = owner;
+        this._journal_length = journal_length;
+        this._heap_size = heap_size;
+        this._elems_size = elems_size;
+        this._exited_indexes_count = exited_indexes_count;
+    }
+}
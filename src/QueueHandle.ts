@@ -0,0 +1,39 @@
+/**
+ * Opaque reference to an element in the queue. Returned by {@link PriorityQueue.enqueue}
+ * and {@link PriorityQueue.enqueueRange} and accepted by {@link PriorityQueue.updatePriority},
+ * {@link PriorityQueue.remove} and {@link PriorityQueue.contains}.
+ * 
+ * @remarks Handle is bound to the queue and to the slot of element in it. Once element leaves
+ * the queue (dequeue, remove, clear, shrink) handle become stale and never point to another element,
+ * even if the slot is reused.
+ */
+export class QueueHandle {
+
+    /**
+     * Queue that issued the handle. Don't use directly.
+     */
+    readonly _owner: object;
+
+    /**
+     * Index of element slot in queue. Don't use directly.
+     */
+    readonly _index: number;
+
+    /**
+     * Unique stamp of element at the moment of issue. Don't use directly.
+     */
+    readonly _stamp: number;
+
+    /**
+     * Handles are created by queue only.
+     * 
+     * @param owner - queue that issued the handle
+     * @param index - index of element slot
+     * @param stamp - unique stamp of element
+     */
+    constructor(owner: object, index: number, stamp: number) {
+        this._owner = owner;
+        this._index = index;
+        this._stamp = stamp;
+    }
+}
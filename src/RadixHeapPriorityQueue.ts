@@ -0,0 +1,261 @@
+import { ArgumentException } from "./ArgumentException";
+import { IElementPriorityPair } from "./IElementPriorityPair";
+import { InvalidOperationException } from "./InvalidOperationException";
+import { IPriorityQueue } from "./IPriorityQueue";
+
+/**
+ * Monotone priority queue based on radix heap for non-negative integer priorities up to `Number.MAX_SAFE_INTEGER`.
+ * It's faster than {@link PriorityQueue} when priorities of enqueued elements never go below the last
+ * dequeued one, e.g. Dijkstra's algorithm with integer weights.
+ * 
+ * @typeParam T - Specifies the type of elements in the queue.
+ * 
+ * @remarks Element with priority p lays in bucket numbered by bit length of p XOR last dequeued priority, so
+ * bucket 0 holds elements equal to last one. Dequeue from empty bucket 0 redistributes the first non-empty
+ * bucket into lower ones, each element moves at most 54 times, so operations take amortized O(log C) time,
+ * where C is the maximal difference of priorities.
+ */
+export class RadixHeapPriorityQueue<T> implements IPriorityQueue<T, number> {
+
+    /**
+     * Priorities of elements in buckets.
+     */
+    private _priorities: Array<Array<number>> = [];
+
+    /**
+     * Elements in buckets.
+     */
+    private _elems: Array<Array<T>> = [];
+
+    /**
+     * Count elements of heap.
+     */
+    private _size: number = 0;
+
+    /**
+     * Last dequeued priority, lower bound of enqueued priorities.
+     */
+    private _last: number = 0;
+
+    /** @inheritDoc IPriorityQueue.count */
+    public get count(): number {
+        return this._size;
+    }
+
+    /**
+     * Gets the last dequeued priority. Enqueued priorities must not be less than it.
+     */
+    public get lastPriority(): number {
+        return this._last;
+    }
+
+    /** @inheritDoc IPriorityQueue.unorderedItems */
+    public get unorderedItems(): Array<T> {
+        let result: Array<T> = [];
+        this._elems.forEach(bucket => result.push(...bucket));
+        return result;
+    }
+
+    /**
+     * Construcor of radix heap. It accpets as arguments array of elemnts with associated priority (default empty).
+     * 
+     * @param range - sequence of elements
+     * 
+     * @throws {@link ArgumentException}
+     * This exception is thrown if some priority isn't non-negative safe integer.
+     */
+    constructor(range: Array<IElementPriorityPair<T, number>> = []) {
+        for(let i = 0; i <= 54; i++) {
+            this._priorities.push([]);
+            this._elems.push([]);
+        }
+        this.enqueueRange(range);
+    }
+
+    /**
+     * Returns number of bucket for priority: bit length of priority XOR last dequeued priority.
+     * 
+     * @param priority - priority not less than {@link _last}
+     * @returns number of bucket from 0 to 54
+     */
+    private _bucketOf(priority: number): number {
+
+        // XOR of high and low 32-bit words separately, cause bitwise operators are 32-bit
+        let high: number = Math.floor(priority / 4294967296) ^ Math.floor(this._last / 4294967296);
+        if(high != 0)
+            return 64 - Math.clz32(high);
+        return 32 - Math.clz32((priority >>> 0) ^ (this._last >>> 0));
+    }
+
+    /**
+     * Checks monotone rule for priority.
+     * 
+     * @param priority - checked priority
+     * 
+     * @throws {@link ArgumentException}
+     * This exception is thrown if priority is invalid or less than last dequeued one.
+     */
+    private _checkPriority(priority: number) {
+        if(!Number.isSafeInteger(priority) || priority < 0)
+            throw new ArgumentException(`Priority must be non-negative safe integer: ${priority}.`);
+        if(priority < this._last)
+            throw new ArgumentException(`Priority ${priority} is less than last dequeued priority ${this._last}.`);
+    }
+
+    /**
+     * Returns number of the first non-empty bucket and position of minimal priority in it.
+     * Queue must not be empty.
+     * 
+     * @returns number of bucket and position in it
+     */
+    private _findMin(): [number, number] {
+        let index: number = 0;
+        while(this._elems[index].length == 0)
+            index++;
+
+        // priorities in bucket 0 are equal, last one is dequeued first, so the last minimal
+        // priority of other bucket is found to be dequeued first after redistribution
+        if(index == 0)
+            return [0, this._elems[0].length - 1];
+        let priorities: Array<number> = this._priorities[index];
+        let min: number = 0;
+        for(let i = 1; i < priorities.length; i++)
+            if(priorities[i] <= priorities[min])
+                min = i;
+        return [index, min];
+    }
+
+    /**
+     * Moves elements with minimal priority into bucket 0 making it the last dequeued priority.
+     */
+    private _normalize() {
+        if(this._elems[0].length > 0)
+            return;
+        let [index, min] = this._findMin();
+        let priorities: Array<number> = this._priorities[index];
+        let elems: Array<T> = this._elems[index];
+        this._priorities[index] = [];
+        this._elems[index] = [];
+        this._last = priorities[min];
+        for(let i = 0; i < priorities.length; i++) {
+            let bucket: number = this._bucketOf(priorities[i]);
+            this._priorities[bucket].push(priorities[i]);
+            this._elems[bucket].push(elems[i]);
+        }
+    }
+
+    /**
+     * Returns minimal priority without changing the queue.
+     * 
+     * @returns minimal priority
+     */
+    private _minPriority(): number {
+        let [index, min] = this._findMin();
+        return this._priorities[index][min];
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.clear
+     * 
+     * @remarks Last dequeued priority is reset to 0.
+     */
+    public clear(): void {
+        this._priorities.forEach(bucket => bucket.length = 0);
+        this._elems.forEach(bucket => bucket.length = 0);
+        this._size = 0;
+        this._last = 0;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.enqueue
+     * 
+     * @throws {@link ArgumentException}
+     * This exception is thrown if priority isn't non-negative safe integer or less than last dequeued one.
+     */
+    public enqueue(elem: T, priority: number): void {
+        this._checkPriority(priority);
+        let bucket: number = this._bucketOf(priority);
+        this._priorities[bucket].push(priority);
+        this._elems[bucket].push(elem);
+        this._size++;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.dequeue
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public dequeue(): T {
+        if(this._size == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        this._normalize();
+        this._size--;
+        this._priorities[0].pop();
+        return this._elems[0].pop() as T;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.peek
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     */
+    public peek(): T {
+        if(this._size == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        let [index, min] = this._findMin();
+        return this._elems[index][min];
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.enqueueDequeue
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     * 
+     * @throws {@link ArgumentException}
+     * This exception is thrown if priority isn't non-negative safe integer or less than last dequeued one.
+     */
+    public enqueueDequeue(elem: T, priority: number): T {
+        if(this._size == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        this._checkPriority(priority);
+        if(priority <= this._minPriority())
+            return elem;
+        let result: T = this.dequeue();
+        this.enqueue(elem, priority);
+        return result;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.dequeueEnqueue
+     * 
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue out of elements.
+     * 
+     * @throws {@link ArgumentException}
+     * This exception is thrown if priority isn't non-negative safe integer or less than dequeued one.
+     */
+    public dequeueEnqueue(elem: T, priority: number): T {
+        if(this._size == 0)
+            throw new InvalidOperationException('The queue is empty.');
+        this._checkPriority(priority);
+        if(priority < this._minPriority())
+            throw new ArgumentException(`Priority ${priority} is less than dequeued priority ${this._minPriority()}.`);
+        let result: T = this.dequeue();
+        this.enqueue(elem, priority);
+        return result;
+    }
+
+    /**
+     * @inheritDoc IPriorityQueue.enqueueRange
+     * 
+     * @throws {@link ArgumentException}
+     * This exception is thrown if some priority is invalid, no element is added then.
+     */
+    public enqueueRange(range: Array<IElementPriorityPair<T, number>>): void {
+        range.forEach(pair => this._checkPriority(pair.priority));
+        range.forEach(pair => this.enqueue(pair.element, pair.priority));
+    }
+}
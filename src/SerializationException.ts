@@ -0,0 +1,24 @@
+import { PriorityQueueException } from "./PriorityQueueException";
+
+/**
+ * Special class exception for throwing in situations when serialized queue
+ * is corrupt, has unsupported version or queue can't be serialized.
+ */
+export class SerializationException extends PriorityQueueException {
+    
+    /**
+     * Name of exception
+     * 
+     * @defaultValue `SerializationException`
+     */
+    name: string = 'SerializationException';
+
+    /**
+     * Default constructor 
+     * 
+     * @param msg could provide some details about why exception happend
+     */
+    constructor(msg: string) {
+        super(msg);
+    }
+}
@@ -0,0 +1,373 @@
+import { ArgumentException } from "./ArgumentException";
+import { InvalidOperationException } from "./InvalidOperationException";
+import { ISharedPriorityQueueOptions } from "./ISharedPriorityQueueOptions";
+import { TimeoutException } from "./TimeoutException";
+
+/**
+ * Indexes of control words in header of shared buffer.
+ */
+const enum Control {
+    Lock = 0,
+    Size = 1,
+    Capacity = 2,
+    RecordSize = 3,
+    K = 4,
+    FreeCount = 5,
+    Signal = 6
+}
+
+/**
+ * Size of header of shared buffer in bytes (8 control words, keeps `Float64` buffers aligned).
+ */
+const HEADER_BYTES: number = 32;
+
+/**
+ * Priority queue / k-ary min-heap that lives in `SharedArrayBuffer` and may be used from several
+ * `worker_threads` (or web workers) at once. Create it in one thread, pass {@link buffer} to others
+ * and attach to it by {@link fromBuffer}.
+ *
+ * @typeParam T - Specifies the type of elements: `number` (e.g. ids) if `recordSize` is `1`,
+ * `Float64Array` records otherwise.
+ *
+ * @remarks Layout of heap is the same as in {@link PriorityQueue}: pairs of priority (`Float64Array`)
+ * and link to element slot (`Int32Array`), records of elements and stack of free slots. All of them and
+ * control words are placed in one shared buffer, so capacity is fixed on construction. Every operation
+ * takes mutex built on `Atomics`, blocking {@link dequeue} sleeps by `Atomics.wait`, that isn't allowed
+ * on main thread of browsers.
+ */
+export class SharedPriorityQueue<T extends number | Float64Array = number> {
+
+    /**
+     * Shared buffer of the queue.
+     */
+    private readonly _buffer: SharedArrayBuffer;
+
+    /**
+     * Control words: mutex, size of heap, capacity, size of record, k, count of free slots and signal
+     * of enqueue that consumers wait on.
+     */
+    private readonly _control: Int32Array;
+
+    /**
+     * Buffer of priorities of heap nodes.
+     */
+    private readonly _heap: Float64Array;
+
+    /**
+     * Buffer of links of heap nodes to slots of {@link _records}.
+     */
+    private readonly _heap_links: Int32Array;
+
+    /**
+     * Records of elements, slot i occupies [i*recordSize..(i+1)*recordSize-1].
+     */
+    private readonly _records: Float64Array;
+
+    /**
+     * Stack of free slots of {@link _records}.
+     */
+    private readonly _exited_indexes: Int32Array;
+
+    /**
+     * Maximum number of elements.
+     */
+    private readonly _capacity: number;
+
+    /**
+     * Number of `Float64` values in element record.
+     */
+    private readonly _record_size: number;
+
+    /**
+     * Number of child nodes.
+     */
+    private readonly _k: number;
+
+    /**
+     * Gets the number of elements contained in the queue. It may change at any moment by other threads.
+     */
+    public get count(): number {
+        return Atomics.load(this._control, Control.Size);
+    }
+
+    /**
+     * Gets the maximum number of elements the queue can hold.
+     */
+    public get capacity(): number {
+        return this._capacity;
+    }
+
+    /**
+     * Gets the number of `Float64` values in element record.
+     */
+    public get recordSize(): number {
+        return this._record_size;
+    }
+
+    /**
+     * Gets the shared buffer of the queue to pass it to other threads.
+     */
+    public get buffer(): SharedArrayBuffer {
+        return this._buffer;
+    }
+
+    /**
+     * Construcor of shared priority queue. It allocates new shared buffer or attaches to buffer
+     * of the queue created in other thread.
+     *
+     * @param capacity - maximum number of elements or value of {@link buffer} of existing queue
+     * @param options - number of child nodes and size of element record, ignored on attach
+     *
+     * @throws {@link ArgumentException}
+     * This exception is thrown if capacity, k or size of record is invalid or buffer doesn't hold shared priority queue.
+     */
+    constructor(capacity: number | SharedArrayBuffer, options: ISharedPriorityQueueOptions = {}) {
+        if(typeof capacity === 'number') {
+            let k: number = options.k ?? 4;
+            let record_size: number = options.recordSize ?? 1;
+            if(!Number.isInteger(capacity) || capacity < 1)
+                throw new ArgumentException(`Capacity must be positive integer: ${capacity}.`);
+            if(!Number.isInteger(k) || k < 2)
+                throw new ArgumentException(`Number of child nodes must be integer at least 2: ${k}.`);
+            if(!Number.isInteger(record_size) || record_size < 1)
+                throw new ArgumentException(`Size of record must be positive integer: ${record_size}.`);
+            this._buffer = new SharedArrayBuffer(SharedPriorityQueue._byteLength(capacity, record_size));
+            this._control = new Int32Array(this._buffer, 0, HEADER_BYTES / 4);
+            this._control[Control.Capacity] = capacity;
+            this._control[Control.RecordSize] = record_size;
+            this._control[Control.K] = k;
+            this._control[Control.FreeCount] = capacity;
+        } else {
+            if(capacity.byteLength < HEADER_BYTES)
+                throw new ArgumentException('Buffer is too small for shared priority queue.');
+            this._buffer = capacity;
+            this._control = new Int32Array(this._buffer, 0, HEADER_BYTES / 4);
+        }
+        this._capacity = this._control[Control.Capacity];
+        this._record_size = this._control[Control.RecordSize];
+        this._k = this._control[Control.K];
+        if(this._capacity < 1 || this._record_size < 1 || this._k < 2 ||
+            this._buffer.byteLength != SharedPriorityQueue._byteLength(this._capacity, this._record_size))
+            throw new ArgumentException('Buffer doesn\'t hold shared priority queue.');
+        [this._heap, this._records, this._heap_links, this._exited_indexes] = this._views();
+        if(typeof capacity === 'number')
+            for(let i = 0; i < capacity; i++)
+                this._exited_indexes[i] = capacity - 1 - i;
+    }
+
+    /**
+     * Attaches to the queue created in other thread.
+     *
+     * @param buffer - value of {@link buffer} of existing queue
+     * @returns queue working on the same shared buffer
+     *
+     * @throws {@link ArgumentException}
+     * This exception is thrown if buffer doesn't hold shared priority queue.
+     */
+    public static fromBuffer<T extends number | Float64Array = number>(buffer: SharedArrayBuffer): SharedPriorityQueue<T> {
+        return new SharedPriorityQueue<T>(buffer);
+    }
+
+    /**
+     * Computes size of shared buffer.
+     *
+     * @param capacity - maximum number of elements
+     * @param record_size - number of `Float64` values in element record
+     * @returns size in bytes
+     */
+    private static _byteLength(capacity: number, record_size: number): number {
+        return HEADER_BYTES + capacity * 8 * (1 + record_size) + capacity * 4 * 2;
+    }
+
+    /**
+     * Creates views of buffers of heap in shared buffer.
+     *
+     * @returns priorities, records, links and free slots
+     */
+    private _views(): [Float64Array, Float64Array, Int32Array, Int32Array] {
+        let offset: number = HEADER_BYTES;
+        let heap = new Float64Array(this._buffer, offset, this._capacity);
+        offset += this._capacity * 8;
+        let records = new Float64Array(this._buffer, offset, this._capacity * this._record_size);
+        offset += this._capacity * this._record_size * 8;
+        let links = new Int32Array(this._buffer, offset, this._capacity);
+        offset += this._capacity * 4;
+        let exited_indexes = new Int32Array(this._buffer, offset, this._capacity);
+        return [heap, records, links, exited_indexes];
+    }
+
+    /**
+     * Takes mutex: `0` - free, `1` - taken, `2` - taken and some threads may wait.
+     */
+    private _lock() {
+        let state: number = Atomics.compareExchange(this._control, Control.Lock, 0, 1);
+        if(state == 0)
+            return;
+        if(state != 2)
+            state = Atomics.exchange(this._control, Control.Lock, 2);
+        while(state != 0) {
+            Atomics.wait(this._control, Control.Lock, 2);
+            state = Atomics.exchange(this._control, Control.Lock, 2);
+        }
+    }
+
+    /**
+     * Releases mutex and wakes one waiting thread if there is any.
+     */
+    private _unlock() {
+        if(Atomics.sub(this._control, Control.Lock, 1) != 1) {
+            Atomics.store(this._control, Control.Lock, 0);
+            Atomics.notify(this._control, Control.Lock, 1);
+        }
+    }
+
+    /**
+     * Swaps two nodes of heap. Call under mutex only.
+     *
+     * @param a - index of first node
+     * @param b - index of second node
+     */
+    private _swap(a: number, b: number) {
+        let priority: number = this._heap[a];
+        this._heap[a] = this._heap[b];
+        this._heap[b] = priority;
+        let link: number = this._heap_links[a];
+        this._heap_links[a] = this._heap_links[b];
+        this._heap_links[b] = link;
+    }
+
+    /**
+     * Moves node up until heap property is restored. Call under mutex only.
+     *
+     * @param index - index of node
+     */
+    private _restoreUp(index: number) {
+        while(index > 0) {
+            let parent: number = Math.floor((index - 1) / this._k);
+            if(!(this._heap[index] < this._heap[parent]))
+                break;
+            this._swap(index, parent);
+            index = parent;
+        }
+    }
+
+    /**
+     * Moves node down until heap property is restored. Call under mutex only.
+     *
+     * @param index - index of node
+     * @param size - size of heap
+     */
+    private _restoreDown(index: number, size: number) {
+        while(true) {
+            let first: number = this._k * index + 1;
+            if(first >= size)
+                break;
+            let min: number = first;
+            let last: number = Math.min(first + this._k, size);
+            for(let child = first + 1; child < last; child++)
+                if(this._heap[child] < this._heap[min])
+                    min = child;
+            if(!(this._heap[min] < this._heap[index]))
+                break;
+            this._swap(index, min);
+            index = min;
+        }
+    }
+
+    /**
+     * Removes root of heap and returns its element. Call under mutex on non-empty heap only.
+     *
+     * @returns element of root
+     */
+    private _pop(): T {
+        let size: number = this._control[Control.Size] - 1;
+        let slot: number = this._heap_links[0];
+        let element: T = (this._record_size == 1 ? this._records[slot] :
+            this._records.slice(slot * this._record_size, (slot + 1) * this._record_size)) as T;
+        this._exited_indexes[this._control[Control.FreeCount]++] = slot;
+        this._heap[0] = this._heap[size];
+        this._heap_links[0] = this._heap_links[size];
+        Atomics.store(this._control, Control.Size, size);
+        this._restoreDown(0, size);
+        return element;
+    }
+
+    /**
+     * Adds the specified element with associated priority to the queue and wakes one waiting consumer.
+     *
+     * @param elem - number or record of `recordSize` values
+     * @param priority - his priority
+     *
+     * @throws {@link ArgumentException}
+     * This exception is thrown if priority is `NaN` or record has wrong length.
+     *
+     * @throws {@link InvalidOperationException}
+     * This exception is thrown if queue is full.
+     */
+    public enqueue(elem: T, priority: number): void {
+        if(Number.isNaN(priority))
+            throw new ArgumentException(`Invalid priority: ${priority}.`);
+        if(typeof elem === 'number' ? this._record_size != 1 : elem.length != this._record_size)
+            throw new ArgumentException(`Element must be record of ${this._record_size} values.`);
+        this._lock();
+        try {
+            let size: number = this._control[Control.Size];
+            if(size == this._capacity)
+                throw new InvalidOperationException('The queue is full.');
+            let slot: number = this._exited_indexes[--this._control[Control.FreeCount]];
+            if(typeof elem === 'number')
+                this._records[slot] = elem;
+            else
+                this._records.set(elem, slot * this._record_size);
+            this._heap[size] = priority;
+            this._heap_links[size] = slot;
+            Atomics.store(this._control, Control.Size, size + 1);
+            this._restoreUp(size);
+            Atomics.add(this._control, Control.Signal, 1);
+        } finally {
+            this._unlock();
+        }
+        Atomics.notify(this._control, Control.Signal, 1);
+    }
+
+    /**
+     * Removes and returns the extreme (minimal) element from the queue without waiting.
+     *
+     * @returns The extreme (minimal) element or `undefined` if the queue is empty
+     */
+    public tryDequeue(): T | undefined {
+        this._lock();
+        try {
+            return this._control[Control.Size] > 0 ? this._pop() : undefined;
+        } finally {
+            this._unlock();
+        }
+    }
+
+    /**
+     * Removes and returns the extreme (minimal) element from the queue, blocking thread while the queue is empty.
+     *
+     * @param timeout - maximum time of waiting in milliseconds
+     * @returns The extreme (minimal) element
+     *
+     * @throws {@link TimeoutException}
+     * This exception is thrown if the queue is still empty after timeout.
+     */
+    public dequeue(timeout: number = Infinity): T {
+        let deadline: number = Date.now() + timeout;
+        while(true) {
+            this._lock();
+            let signal: number = this._control[Control.Signal];
+            try {
+                if(this._control[Control.Size] > 0)
+                    return this._pop();
+            } finally {
+                this._unlock();
+            }
+            let remaining: number = deadline - Date.now();
+            if(remaining <= 0)
+                throw new TimeoutException(`The queue is empty after ${timeout} ms.`);
+            Atomics.wait(this._control, Control.Signal, signal, remaining);
+        }
+    }
+}
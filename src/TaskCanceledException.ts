@@ -0,0 +1,24 @@
+import { PriorityQueueException } from "./PriorityQueueException";
+
+/**
+ * Special class exception for throwing in situations when scheduled task
+ * is cancelled by its signal or by clearing of scheduler.
+ */
+export class TaskCanceledException extends PriorityQueueException {
+    
+    /**
+     * Name of exception
+     * 
+     * @defaultValue `TaskCanceledException`
+     */
+    name: string = 'TaskCanceledException';
+
+    /**
+     * Default constructor 
+     * 
+     * @param msg could provide some details about why exception happend
+     */
+    constructor(msg: string) {
+        super(msg);
+    }
+}
@@ -0,0 +1,24 @@
+import { PriorityQueueException } from "./PriorityQueueException";
+
+/**
+ * Special class exception for throwing in situations when scheduled task or blocking
+ * operation doesn't complete in specified time.
+ */
+export class TimeoutException extends PriorityQueueException {
+    
+    /**
+     * Name of exception
+     * 
+     * @defaultValue `TimeoutException`
+     */
+    name: string = 'TimeoutException';
+
+    /**
+     * Default constructor 
+     * 
+     * @param msg could provide some details about why exception happend
+     */
+    constructor(msg: string) {
+        super(msg);
+    }
+}
@@ -0,0 +1,18 @@
+import { ArgumentException } from "./ArgumentException";
+import { Comparer } from "./Comparer";
+
+/**
+ * Checks priority in strict mode: it must be finite number without comparer
+ * and must not be `undefined`, `null` or non-finite number with comparer.
+ *
+ * @param priority - checked priority
+ * @param comparer - comparer of priorities of queue, `undefined` for native `<` operator
+ *
+ * @throws {@link ArgumentException}
+ * This exception is thrown if priority is invalid.
+ */
+export function checkPriority<TPriority>(priority: TPriority, comparer: Comparer<TPriority> | undefined): void {
+    if(comparer === undefined ? typeof priority !== 'number' || !Number.isFinite(priority) :
+        priority === undefined || priority === null || typeof priority === 'number' && !Number.isFinite(priority))
+        throw new ArgumentException(`Invalid priority: ${String(priority)}.`);
+}
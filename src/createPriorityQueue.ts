@@ -0,0 +1,68 @@
+import { BinomialHeapPriorityQueue } from "./BinomialHeapPriorityQueue";
+import { IElementPriorityPair } from "./IElementPriorityPair";
+import { IPriorityQueueOptions } from "./IPriorityQueueOptions";
+import { PairingHeapPriorityQueue } from "./PairingHeapPriorityQueue";
+import { PriorityQueue } from "./PriorityQueue";
+
+/**
+ * Backend of queue created by {@link createPriorityQueue}:
+ * - `'k-ary'` - {@link PriorityQueue}
+ * - `'pairing'` - {@link PairingHeapPriorityQueue}
+ * - `'binomial'` - {@link BinomialHeapPriorityQueue}
+ */
+export type PriorityQueueBackend = 'k-ary' | 'pairing' | 'binomial';
+
+/**
+ * Options of {@link createPriorityQueue}. Options of k-ary heap (`k`, `stable`, capacity)
+ * are ignored by other backends.
+ *
+ * @typeParam T - Specifies the type of elements in the queue.
+ * @typeParam TPriority - Specifies the type of priority associated with enqueued elements.
+ */
+export interface ICreatePriorityQueueOptions<T, TPriority> extends IPriorityQueueOptions<TPriority> {
+
+    /**
+     * Backend of queue.
+     *
+     * @defaultValue `'k-ary'`
+     */
+    backend?: PriorityQueueBackend;
+
+    /**
+     * Initial sequence of elements.
+     */
+    range?: Array<IElementPriorityPair<T, TPriority>>;
+
+    /**
+     * Number of child nodes of k-ary heap.
+     *
+     * @defaultValue `4`
+     */
+    k?: number;
+}
+
+/**
+ * Creates priority queue with specified backend, so implementations can be swapped without
+ * touching call sites. Return type narrows to backend class, so its specific features (e.g. meld)
+ * are accessible when backend is known at compile time.
+ *
+ * @param options - backend and options of queue
+ * @returns new queue
+ */
+export function createPriorityQueue<T, TPriority = number>(options: ICreatePriorityQueueOptions<T, TPriority> & { backend: 'pairing' }): PairingHeapPriorityQueue<T, TPriority>;
+export function createPriorityQueue<T, TPriority = number>(options: ICreatePriorityQueueOptions<T, TPriority> & { backend: 'binomial' }): BinomialHeapPriorityQueue<T, TPriority>;
+export function createPriorityQueue<T, TPriority = number>(options?: ICreatePriorityQueueOptions<T, TPriority> & { backend?: 'k-ary' }): PriorityQueue<T, TPriority>;
+export function createPriorityQueue<T, TPriority = number>(options?: ICreatePriorityQueueOptions<T, TPriority>):
+    PriorityQueue<T, TPriority> | PairingHeapPriorityQueue<T, TPriority> | BinomialHeapPriorityQueue<T, TPriority>;
+export function createPriorityQueue<T, TPriority = number>(options: ICreatePriorityQueueOptions<T, TPriority> = {}):
+    PriorityQueue<T, TPriority> | PairingHeapPriorityQueue<T, TPriority> | BinomialHeapPriorityQueue<T, TPriority> {
+    let range: Array<IElementPriorityPair<T, TPriority>> = options.range ?? [];
+    switch(options.backend ?? 'k-ary') {
+        case 'k-ary':
+            return new PriorityQueue<T, TPriority>(range, options.k ?? 4, options);
+        case 'pairing':
+            return new PairingHeapPriorityQueue<T, TPriority>(range, options.comparer);
+        case 'binomial':
+            return new BinomialHeapPriorityQueue<T, TPriority>(range, options.comparer);
+    }
+}
@@ -0,0 +1,16 @@
+/**
+ * Weighted edge to adjacent node returned by {@link Neighbours} callback.
+ * 
+ * @typeParam TNode - Specifies the type of graph nodes, compared as keys of `Map`.
+ */
+export interface IGraphEdge<TNode> {
+    node: TNode;
+    weight: number;
+}
+
+/**
+ * Lightweight adjacency of graph: callback that enumerates outgoing edges of node.
+ * 
+ * @typeParam TNode - Specifies the type of graph nodes, compared as keys of `Map`.
+ */
+export type Neighbours<TNode> = (node: TNode) => Iterable<IGraphEdge<TNode>>;
@@ -0,0 +1,9 @@
+/**
+ * Path in graph with its total weight.
+ * 
+ * @typeParam TNode - Specifies the type of graph nodes.
+ */
+export interface IGraphPath<TNode> {
+    nodes: Array<TNode>;
+    distance: number;
+}
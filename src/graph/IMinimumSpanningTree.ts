@@ -0,0 +1,22 @@
+/**
+ * Result of {@link primMST}.
+ * 
+ * @typeParam TNode - Specifies the type of graph nodes.
+ */
+export interface IMinimumSpanningTree<TNode> {
+
+    /**
+     * Edges of tree in order of addition.
+     */
+    edges: Array<{ from: TNode, to: TNode, weight: number }>;
+
+    /**
+     * Total weight of tree.
+     */
+    weight: number;
+
+    /**
+     * Parents of nodes (except start one) in tree rooted at start node.
+     */
+    predecessors: Map<TNode, TNode>;
+}
@@ -0,0 +1,18 @@
+/**
+ * Result of single-source shortest paths search.
+ * 
+ * @typeParam TNode - Specifies the type of graph nodes.
+ */
+export interface IShortestPaths<TNode> {
+
+    /**
+     * Distances from source of settled nodes. On early termination at target it holds
+     * only nodes settled before target.
+     */
+    distances: Map<TNode, number>;
+
+    /**
+     * Predecessors of settled nodes (except source) on shortest paths, see {@link reconstructPath}.
+     */
+    predecessors: Map<TNode, TNode>;
+}
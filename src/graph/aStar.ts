@@ -0,0 +1,24 @@
+import { shortestPathSearch } from "./dijkstra";
+import { Neighbours } from "./IGraphEdge";
+import { IShortestPaths } from "./IShortestPaths";
+
+/**
+ * Finds shortest path from source to target node by A* search on {@link PriorityQueue}.
+ * Search stops as soon as target is settled.
+ * 
+ * @remarks Heuristic must be consistent (never decrease by more than weight of edge and be `0` at target),
+ * otherwise found path may be not the shortest one.
+ * 
+ * @param source - source node
+ * @param target - target node
+ * @param neighbours - adjacency callback, weights must be non-negative
+ * @param heuristic - estimate of distance from node to target
+ * @returns distances and predecessors of settled nodes, target is missing if it's unreachable
+ * 
+ * @throws {@link InvalidOperationException}
+ * This exception is thrown if some edge has negative weight.
+ */
+export function aStar<TNode>(source: TNode, target: TNode, neighbours: Neighbours<TNode>,
+    heuristic: (node: TNode) => number): IShortestPaths<TNode> {
+    return shortestPathSearch(source, neighbours, target, heuristic);
+}
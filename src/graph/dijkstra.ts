@@ -0,0 +1,82 @@
+import { InvalidOperationException } from "../InvalidOperationException";
+import { PriorityQueue } from "../PriorityQueue";
+import { QueueHandle } from "../QueueHandle";
+import { Neighbours } from "./IGraphEdge";
+import { IShortestPaths } from "./IShortestPaths";
+
+/**
+ * Tentative label of reached but not settled node.
+ */
+interface ILabel<TNode> {
+    distance: number;
+    estimate: number;
+    predecessor: TNode;
+    handle: QueueHandle;
+}
+
+/**
+ * Best-first search shared by {@link dijkstra} and {@link aStar}. Nodes are keyed in the queue by
+ * distance plus heuristic estimate and improved in place by {@link PriorityQueue.updatePriority}.
+ * 
+ * @param source - source node
+ * @param neighbours - adjacency callback
+ * @param target - node to stop at after it's settled, `undefined` to settle all reachable nodes
+ * @param heuristic - consistent estimate of distance from node to target
+ * @returns distances and predecessors of settled nodes
+ * 
+ * @throws {@link InvalidOperationException}
+ * This exception is thrown if some edge has negative weight.
+ */
+export function shortestPathSearch<TNode>(source: TNode, neighbours: Neighbours<TNode>, target: TNode | undefined,
+    heuristic: (node: TNode) => number): IShortestPaths<TNode> {
+    let distances: Map<TNode, number> = new Map();
+    let predecessors: Map<TNode, TNode> = new Map();
+    let labels: Map<TNode, ILabel<TNode>> = new Map();
+    let queue = new PriorityQueue<TNode>();
+    let estimate: number = heuristic(source);
+    labels.set(source, { distance: 0, estimate: estimate, predecessor: source, handle: queue.enqueue(source, estimate) });
+    while(queue.count > 0) {
+        let node: TNode = queue.dequeue();
+        let label = labels.get(node) as ILabel<TNode>;
+        labels.delete(node);
+        distances.set(node, label.distance);
+        if(node !== source)
+            predecessors.set(node, label.predecessor);
+        if(target !== undefined && node === target)
+            break;
+        for(let edge of neighbours(node)) {
+            if(edge.weight < 0)
+                throw new InvalidOperationException('Edge weights must be non-negative.');
+            if(distances.has(edge.node))
+                continue;
+            let distance: number = label.distance + edge.weight;
+            let next = labels.get(edge.node);
+            if(next === undefined) {
+                estimate = heuristic(edge.node);
+                labels.set(edge.node, { distance: distance, estimate: estimate, predecessor: node, handle: queue.enqueue(edge.node, distance + estimate) });
+            } else if(distance < next.distance) {
+
+                // decrease-key of reached node
+                next.distance = distance;
+                next.predecessor = node;
+                queue.updatePriority(next.handle, distance + next.estimate);
+            }
+        }
+    }
+    return { distances: distances, predecessors: predecessors };
+}
+
+/**
+ * Finds shortest paths from source node by Dijkstra's algorithm on {@link PriorityQueue}.
+ * 
+ * @param source - source node
+ * @param neighbours - adjacency callback, weights must be non-negative
+ * @param target - optional node to stop at, once its distance is known
+ * @returns distances and predecessors of settled nodes
+ * 
+ * @throws {@link InvalidOperationException}
+ * This exception is thrown if some edge has negative weight.
+ */
+export function dijkstra<TNode>(source: TNode, neighbours: Neighbours<TNode>, target?: TNode): IShortestPaths<TNode> {
+    return shortestPathSearch(source, neighbours, target, () => 0);
+}
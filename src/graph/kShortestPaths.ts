@@ -0,0 +1,128 @@
+import { ArgumentException } from "../ArgumentException";
+import { PriorityQueue } from "../PriorityQueue";
+import { dijkstra } from "./dijkstra";
+import { IGraphEdge, Neighbours } from "./IGraphEdge";
+import { IGraphPath } from "./IGraphPath";
+import { reconstructPath } from "./reconstructPath";
+
+/**
+ * Found path with distances from source to each of its nodes.
+ */
+interface IPrefixedPath<TNode> extends IGraphPath<TNode> {
+    prefix: Array<number>;
+}
+
+/**
+ * Checks whether first `length` nodes of two paths are the same.
+ * 
+ * @param a - first path
+ * @param b - second path
+ * @param length - length of prefix
+ * @returns `true` if prefixes are equal
+ */
+function samePrefix<TNode>(a: Array<TNode>, b: Array<TNode>, length: number): boolean {
+    if(a.length < length || b.length < length)
+        return false;
+    for(let i = 0; i < length; i++)
+        if(a[i] !== b[i])
+            return false;
+    return true;
+}
+
+/**
+ * Builds key of path from ids of its nodes, ids are assigned to nodes in order of first use.
+ * 
+ * @param nodes - nodes of path
+ * @param ids - ids of nodes
+ * @returns key of path
+ */
+function pathKey<TNode>(nodes: Array<TNode>, ids: Map<TNode, number>): string {
+    return nodes.map(node => {
+        let id = ids.get(node);
+        if(id === undefined) {
+            id = ids.size;
+            ids.set(node, id);
+        }
+        return id;
+    }).join(',');
+}
+
+/**
+ * Finds up to k shortest loopless paths from source to target by Yen's algorithm. Each spur path
+ * is found by {@link dijkstra} with early termination and candidates are kept in {@link PriorityQueue}.
+ * 
+ * @param source - source node
+ * @param target - target node
+ * @param neighbours - adjacency callback, weights must be non-negative
+ * @param k - maximum number of paths
+ * @returns paths in order of distance, empty if target is unreachable
+ * 
+ * @throws {@link ArgumentException}
+ * This exception is thrown if k isn't positive integer.
+ * 
+ * @throws {@link InvalidOperationException}
+ * This exception is thrown if some edge has negative weight.
+ */
+export function kShortestPaths<TNode>(source: TNode, target: TNode, neighbours: Neighbours<TNode>, k: number): Array<IGraphPath<TNode>> {
+    if(!Number.isInteger(k) || k < 1)
+        throw new ArgumentException(`Invalid number of paths: ${k}.`);
+    let found: Array<IPrefixedPath<TNode>> = [];
+    let first = dijkstra(source, neighbours, target);
+    let nodes = reconstructPath(first, target);
+    if(nodes === undefined)
+        return [];
+    found.push({ nodes: nodes, distance: first.distances.get(target) as number, prefix: nodes.map(node => first.distances.get(node) as number) });
+
+    // candidates are ordered by distance, equal ones in order of discovery
+    let candidates = new PriorityQueue<IPrefixedPath<TNode>>([], 4, { stable: true });
+    let node_ids: Map<TNode, number> = new Map();
+    let known_paths: Set<string> = new Set();
+    let removed_nodes: Set<TNode> = new Set();
+    let removed_edges: Map<TNode, Set<TNode>> = new Map();
+    let filtered: Neighbours<TNode> = node => {
+        let result: Array<IGraphEdge<TNode>> = [];
+        for(let edge of neighbours(node))
+            if(!removed_nodes.has(edge.node) && !removed_edges.get(node)?.has(edge.node))
+                result.push(edge);
+        return result;
+    };
+
+    while(found.length < k) {
+        let last: IPrefixedPath<TNode> = found[found.length - 1];
+        for(let i = 0; i < last.nodes.length - 1; i++) {
+            let spur: TNode = last.nodes[i];
+
+            // remove edges used by found paths with the same root and nodes of root except spur node
+            removed_nodes.clear();
+            removed_edges.clear();
+            found.forEach(path => {
+                if(!samePrefix(path.nodes, last.nodes, i + 1) || path.nodes.length <= i + 1)
+                    return;
+                let edges = removed_edges.get(spur) ?? new Set<TNode>();
+                edges.add(path.nodes[i + 1]);
+                removed_edges.set(spur, edges);
+            });
+            for(let j = 0; j < i; j++)
+                removed_nodes.add(last.nodes[j]);
+
+            let spur_paths = dijkstra(spur, filtered, target);
+            let spur_nodes = reconstructPath(spur_paths, target);
+            if(spur_nodes === undefined)
+                continue;
+            let candidate: IPrefixedPath<TNode> = {
+                nodes: last.nodes.slice(0, i).concat(spur_nodes),
+                distance: last.prefix[i] + (spur_paths.distances.get(target) as number),
+                prefix: last.prefix.slice(0, i).concat(spur_nodes.map(node => last.prefix[i] + (spur_paths.distances.get(node) as number)))
+            };
+            let key: string = pathKey(candidate.nodes, node_ids);
+            if(!known_paths.has(key)) {
+                known_paths.add(key);
+                candidates.enqueue(candidate, candidate.distance);
+            }
+        }
+        if(candidates.count == 0)
+            break;
+        found.push(candidates.dequeue());
+    }
+    return found.map(path => ({ nodes: path.nodes, distance: path.distance }));
+}
@@ -0,0 +1,54 @@
+import { PriorityQueue } from "../PriorityQueue";
+import { QueueHandle } from "../QueueHandle";
+import { Neighbours } from "./IGraphEdge";
+import { IMinimumSpanningTree } from "./IMinimumSpanningTree";
+
+/**
+ * Cheapest known edge connecting node to the tree.
+ */
+interface ICut<TNode> {
+    weight: number;
+    from: TNode;
+    handle: QueueHandle;
+}
+
+/**
+ * Finds minimum spanning tree of connected component of start node by Prim's algorithm on {@link PriorityQueue}.
+ * 
+ * @remarks Graph is considered undirected, so neighbours callback must return each edge from both of its ends.
+ * 
+ * @param start - root of tree
+ * @param neighbours - adjacency callback
+ * @returns edges, total weight and parents of tree nodes
+ */
+export function primMST<TNode>(start: TNode, neighbours: Neighbours<TNode>): IMinimumSpanningTree<TNode> {
+    let tree: IMinimumSpanningTree<TNode> = { edges: [], weight: 0, predecessors: new Map() };
+    let visited: Set<TNode> = new Set();
+    let cuts: Map<TNode, ICut<TNode>> = new Map();
+    let queue = new PriorityQueue<TNode>();
+    cuts.set(start, { weight: 0, from: start, handle: queue.enqueue(start, 0) });
+    while(queue.count > 0) {
+        let node: TNode = queue.dequeue();
+        let cut = cuts.get(node) as ICut<TNode>;
+        cuts.delete(node);
+        visited.add(node);
+        if(node !== start) {
+            tree.edges.push({ from: cut.from, to: node, weight: cut.weight });
+            tree.weight += cut.weight;
+            tree.predecessors.set(node, cut.from);
+        }
+        for(let edge of neighbours(node)) {
+            if(visited.has(edge.node))
+                continue;
+            let next = cuts.get(edge.node);
+            if(next === undefined) {
+                cuts.set(edge.node, { weight: edge.weight, from: node, handle: queue.enqueue(edge.node, edge.weight) });
+            } else if(edge.weight < next.weight) {
+                next.weight = edge.weight;
+                next.from = node;
+                queue.updatePriority(next.handle, edge.weight);
+            }
+        }
+    }
+    return tree;
+}
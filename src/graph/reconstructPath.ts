@@ -0,0 +1,20 @@
+import { IShortestPaths } from "./IShortestPaths";
+
+/**
+ * Builds path from source to target by predecessors of shortest paths search.
+ * 
+ * @param paths - result of {@link dijkstra} or {@link aStar}
+ * @param target - last node of path
+ * @returns nodes of path starting from source or `undefined` if target isn't settled
+ */
+export function reconstructPath<TNode>(paths: IShortestPaths<TNode>, target: TNode): Array<TNode> | undefined {
+    if(!paths.distances.has(target))
+        return undefined;
+    let nodes: Array<TNode> = [target];
+    let node: TNode = target;
+    while(paths.predecessors.has(node)) {
+        node = paths.predecessors.get(node) as TNode;
+        nodes.push(node);
+    }
+    return nodes.reverse();
+}
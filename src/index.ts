@@ -0,0 +1,69 @@
+import { AsyncPriorityQueue } from "./AsyncPriorityQueue";
+import { BinomialHeapEntry, BinomialHeapPriorityQueue } from "./BinomialHeapPriorityQueue";
+import { AgingPolicy, linearAging, stepAging } from "./AgingPolicy";
+import { AgingPriorityQueue } from "./AgingPriorityQueue";
+import { ArgumentException } from "./ArgumentException";
+import { BoundedPriorityQueue } from "./BoundedPriorityQueue";
+import { BucketPriorityQueue } from "./BucketPriorityQueue";
+import { Comparer, defaultComparer, reverseComparer } from "./Comparer";
+import { createPriorityQueue, ICreatePriorityQueueOptions, PriorityQueueBackend } from "./createPriorityQueue";
+import { DelayQueue } from "./DelayQueue";
+import { FairPriorityQueue } from "./FairPriorityQueue";
+import { IAgingPriorityQueueOptions } from "./IAgingPriorityQueueOptions";
+import { IAsyncPriorityQueueOptions } from "./IAsyncPriorityQueueOptions";
+import { IBoundedPriorityQueueOptions } from "./IBoundedPriorityQueueOptions";
+import { IDelayQueueOptions } from "./IDelayQueueOptions";
+import { IElementCodec, jsonElementCodec } from "./IElementCodec";
+import { IElementPriorityPair } from "./IElementPriorityPair";
+import { FairSchedulingPolicy, IFairPriorityQueueOptions } from "./IFairPriorityQueueOptions";
+import { IKeyedElementPriorityPair } from "./IKeyedElementPriorityPair";
+import { IKeyedPriorityQueueOptions, KeyUpdatePolicy } from "./IKeyedPriorityQueueOptions";
+import { InvalidOperationException } from "./InvalidOperationException";
+import { IPriorityQueue } from "./IPriorityQueue";
+import { IPriorityQueueJSON } from "./IPriorityQueueJSON";
+import { IPriorityQueueOptions } from "./IPriorityQueueOptions";
+import { IPriorityQueueStats } from "./IPriorityQueueStats";
+import { IPriorityTaskSchedulerOptions } from "./IPriorityTaskSchedulerOptions";
+import { ISharedPriorityQueueOptions } from "./ISharedPriorityQueueOptions";
+import { ITaskOptions } from "./ITaskOptions";
+import { KeyedPriorityQueue } from "./KeyedPriorityQueue";
+import { MinMaxPriorityQueue } from "./MinMaxPriorityQueue";
+import { PairingHeapNode, PairingHeapPriorityQueue } from "./PairingHeapPriorityQueue";
+import { PersistentPriorityQueue } from "./PersistentPriorityQueue";
+import { PriorityQueue } from "./PriorityQueue";
+import { PriorityQueueException } from "./PriorityQueueException";
+import { PriorityTaskScheduler, TaskFunction } from "./PriorityTaskScheduler";
+import { QueueCheckpoint } from "./QueueCheckpoint";
+import { QueueHandle } from "./QueueHandle";
+import { RadixHeapPriorityQueue } from "./RadixHeapPriorityQueue";
+import { SerializationException } from "./SerializationException";
+import { SharedPriorityQueue } from "./SharedPriorityQueue";
+import { TaskCanceledException } from "./TaskCanceledException";
+import { TimeoutException } from "./TimeoutException";
+import { aStar } from "./graph/aStar";
+import { dijkstra } from "./graph/dijkstra";
+import { IGraphEdge, Neighbours } from "./graph/IGraphEdge";
+import { IGraphPath } from "./graph/IGraphPath";
+import { IMinimumSpanningTree } from "./graph/IMinimumSpanningTree";
+import { IShortestPaths } from "./graph/IShortestPaths";
+import { kShortestPaths } from "./graph/kShortestPaths";
+import { primMST } from "./graph/primMST";
+import { reconstructPath } from "./graph/reconstructPath";
+
+export { PriorityQueue, IPriorityQueue, IPriorityQueueOptions, IElementPriorityPair, InvalidOperationException, QueueHandle, Comparer, defaultComparer, reverseComparer }
+export { IPriorityQueueJSON, IElementCodec, jsonElementCodec, SerializationException }
+export { PairingHeapPriorityQueue, PairingHeapNode, BinomialHeapPriorityQueue, BinomialHeapEntry }
+export { createPriorityQueue, ICreatePriorityQueueOptions, PriorityQueueBackend }
+export { BoundedPriorityQueue, IBoundedPriorityQueueOptions, MinMaxPriorityQueue }
+export { AsyncPriorityQueue, IAsyncPriorityQueueOptions }
+export { PriorityTaskScheduler, IPriorityTaskSchedulerOptions, ITaskOptions, TaskFunction, TaskCanceledException, TimeoutException }
+export { KeyedPriorityQueue, IKeyedPriorityQueueOptions, IKeyedElementPriorityPair, KeyUpdatePolicy }
+export { dijkstra, aStar, primMST, kShortestPaths, reconstructPath, IGraphEdge, Neighbours, IGraphPath, IMinimumSpanningTree, IShortestPaths }
+export { PriorityQueueException, ArgumentException, IPriorityQueueStats }
+export { DelayQueue, IDelayQueueOptions }
+export { RadixHeapPriorityQueue, BucketPriorityQueue }
+export { PersistentPriorityQueue }
+export { SharedPriorityQueue, ISharedPriorityQueueOptions }
+export { AgingPriorityQueue, IAgingPriorityQueueOptions, AgingPolicy, linearAging, stepAging }
+export { QueueCheckpoint }
+export { FairPriorityQueue, IFairPriorityQueueOptions, FairSchedulingPolicy }
\ No newline at end of file
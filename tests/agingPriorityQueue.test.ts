@@ -0,0 +1,72 @@
+import { AgingPriorityQueue, InvalidOperationException, linearAging, stepAging } from '../src/index';
+
+function fakeClock(start: number = 1000) {
+    let clock = { now: start, read: () => clock.now };
+    return clock;
+}
+
+describe('aging priority queue', () => {
+    test('linear aging by time prevents starvation', () => {
+        let clock = fakeClock();
+        let queue = new AgingPriorityQueue<string>(4, { policy: linearAging(0.1), clock: clock.read });
+        queue.enqueue('low', 10);
+        let served: Array<string> = [];
+        for(let i = 0; i < 20; i++) {
+            clock.now += 10;
+            queue.enqueue(`high-${i}`, 1);
+            served.push(queue.dequeue());
+        }
+        expect(served.slice(0, 5)).toEqual(['high-0', 'high-1', 'high-2', 'high-3', 'high-4']);
+        expect(served).toContain('low');
+        expect(served.indexOf('low')).toBeLessThan(12);
+    });
+
+    test('linear aging keeps exact order between re-keys', () => {
+        let clock = fakeClock(0);
+        let queue = new AgingPriorityQueue<number>(4, { policy: linearAging(1), clock: clock.read });
+        let expected: Array<{ id: number, base: number, at: number }> = [];
+        for(let i = 0; i < 200; i++) {
+            clock.now += (i * 13) % 7;
+            let base = (i * 37) % 100;
+            queue.enqueue(i, base);
+            expected.push({ id: i, base: base, at: clock.now });
+        }
+        let result: Array<number> = [];
+        while(queue.count > 0) {
+            let entry = queue.peekEntry();
+            let best = Math.min(...expected.map(e => e.base - (clock.now - e.at)));
+            expect(entry.priority).toEqual(best);
+            result.push(queue.dequeue());
+            expected = expected.filter(e => e.id != entry.element);
+            clock.now += 1;
+        }
+        expect(result.length).toEqual(200);
+    });
+
+    test('step aging by operations', () => {
+        let queue = new AgingPriorityQueue<string>(4, { policy: stepAging(4, 1), ageBy: 'operations', rekeyInterval: 1 });
+        queue.enqueue('old', 3);
+        queue.enqueue('a', 2);
+        queue.enqueue('b', 2);
+        queue.enqueue('c', 2);
+        expect(queue.peekEntry()).toEqual({ element: 'old', priority: 2 });
+        expect(queue.dequeue()).toEqual('old');
+        expect(queue.dequeue()).toEqual('a');
+        expect(queue.count).toEqual(2);
+        expect(queue.unorderedItems.sort()).toEqual(['b', 'c']);
+    });
+
+    test('errors and clear', () => {
+        let queue = new AgingPriorityQueue<number>();
+        expect(() => queue.dequeue()).toThrow(InvalidOperationException);
+        expect(() => queue.peek()).toThrow(InvalidOperationException);
+        expect(() => queue.enqueueDequeue(1, 1)).toThrow(InvalidOperationException);
+        queue.enqueueRange([{ element: 1, priority: 5 }, { element: 2, priority: 3 }]);
+        expect(queue.enqueueDequeue(3, -100)).toEqual(3);
+        expect(queue.dequeueEnqueue(4, 100)).toEqual(2);
+        queue.rekey();
+        expect(queue.dequeue()).toEqual(1);
+        queue.clear();
+        expect(queue.count).toEqual(0);
+    });
+});
@@ -0,0 +1,95 @@
+import { AsyncPriorityQueue, InvalidOperationException } from '../src/index';
+
+describe('async priority queue', () => {
+    test('dequeueAsync resolves when element arrives', async () => {
+        let queue = new AsyncPriorityQueue<string>();
+        let pending = queue.dequeueAsync();
+        queue.enqueue('a', 1);
+        await expect(pending).resolves.toEqual('a');
+        expect(queue.count).toEqual(0);
+    });
+
+    test('waiting consumers are served in priority order', async () => {
+        let queue = new AsyncPriorityQueue<string>();
+        let first = queue.dequeueAsync();
+        let second = queue.dequeueAsync();
+        queue.enqueue('low', 10);
+        queue.enqueue('high', 1);
+        await expect(first).resolves.toEqual('high');
+        await expect(second).resolves.toEqual('low');
+    });
+
+    test('abort signal cancels waiting', async () => {
+        let queue = new AsyncPriorityQueue<string>();
+        let controller = new AbortController();
+        let pending = queue.dequeueAsync(controller.signal);
+        controller.abort();
+        await expect(pending).rejects.toBeDefined();
+        queue.enqueue('a', 1);
+        expect(queue.count).toEqual(1);
+        await expect(queue.dequeueAsync(controller.signal)).rejects.toBeDefined();
+    });
+
+    test('enqueueAsync waits at high-water mark', async () => {
+        let queue = new AsyncPriorityQueue<number>(4, { highWaterMark: 2 });
+        await queue.enqueueAsync(1, 1);
+        await queue.enqueueAsync(2, 2);
+        let resolved = false;
+        let pending = queue.enqueueAsync(0, 0).then(() => { resolved = true; });
+        await Promise.resolve();
+        expect(resolved).toBe(false);
+        expect(queue.count).toEqual(2);
+        await expect(queue.dequeueAsync()).resolves.toEqual(1);
+        await pending;
+        expect(resolved).toBe(true);
+        await expect(queue.dequeueAsync()).resolves.toEqual(0);
+    });
+
+    test('close rejects pending waiters and ends iteration', async () => {
+        let queue = new AsyncPriorityQueue<number>(4, { highWaterMark: 1 });
+        let consumed: Array<number> = [];
+        let consumer = (async () => {
+            for await (let elem of queue) {
+                consumed.push(elem);
+            }
+        })();
+        queue.enqueue(3, 3);
+        queue.enqueue(1, 1);
+        queue.enqueue(2, 2);
+        let producer = queue.enqueueAsync(4, 4);
+        await new Promise(resolve => setTimeout(resolve, 0));
+        queue.close();
+        await consumer;
+        expect(consumed).toEqual([1, 2, 3, 4]);
+        await expect(producer).resolves.toBeUndefined();
+        await expect(queue.dequeueAsync()).rejects.toBeInstanceOf(InvalidOperationException);
+        await expect(queue.enqueueAsync(5, 5)).rejects.toBeInstanceOf(InvalidOperationException);
+        expect(() => queue.enqueue(5, 5)).toThrow(InvalidOperationException);
+    });
+
+    test('close finishes hand-off scheduled in the same tick', async () => {
+        let queue = new AsyncPriorityQueue<number>();
+        let consumed: Array<number> = [];
+        let consumer = (async () => {
+            for await (let elem of queue) {
+                consumed.push(elem);
+            }
+        })();
+        await new Promise(resolve => setTimeout(resolve, 0));
+        queue.enqueue(2, 2);
+        queue.enqueue(1, 1);
+        queue.close();
+        await consumer;
+        expect(consumed).toEqual([1, 2]);
+        expect(queue.count).toEqual(0);
+    });
+
+    test('close rejects waiting producer', async () => {
+        let queue = new AsyncPriorityQueue<number>(4, { highWaterMark: 1 });
+        queue.enqueue(1, 1);
+        let producer = queue.enqueueAsync(2, 2);
+        queue.close();
+        await expect(producer).rejects.toBeInstanceOf(InvalidOperationException);
+        await expect(queue.dequeueAsync()).resolves.toEqual(1);
+    });
+});
@@ -0,0 +1,134 @@
+import { PriorityQueue, PairingHeapPriorityQueue, BinomialHeapPriorityQueue, InvalidOperationException, IElementPriorityPair, IPriorityQueue, Comparer, createPriorityQueue, reverseComparer } from '../src/index';
+
+interface IHandleQueue<T> extends IPriorityQueue<T> {
+    enqueue(elem: T, priority: number): any;
+    contains(handle: any): boolean;
+    updatePriority(handle: any, priority: number): void;
+    remove(handle: any): T;
+    meld(other: IHandleQueue<T>): void;
+}
+
+type HandleQueueConstructor = new <T>(range?: Array<IElementPriorityPair<T>>, comparer?: Comparer<number>) => IHandleQueue<T>;
+
+const cycles: number = 10000;
+
+function arrayEquals(a: Array<any>, b: Array<any>) {
+    return a.length === b.length && a.every((val, index) => val === b[index]);
+}
+
+describe.each([
+    ['pairing', PairingHeapPriorityQueue as unknown as HandleQueueConstructor],
+    ['binomial', BinomialHeapPriorityQueue as unknown as HandleQueueConstructor],
+])('%s heap backend', (name, Queue) => {
+    test('sorting random sequence', () => {
+        let queue = new Queue<number>();
+        let ar: Array<number> = [];
+        for(let i = 0; i < cycles; i++) {
+            ar[i] = Math.random();
+            queue.enqueue(ar[i], ar[i]);
+        }
+        let res: Array<number> = [];
+        for(let i = 0; i < cycles / 2; i++) {
+            res.push(queue.dequeue());
+        }
+        expect(queue.unorderedItems.length).toEqual(cycles / 2);
+        while(queue.count != 0) {
+            res.push(queue.dequeue());
+        }
+        ar.sort(function(a, b){return a-b});
+        expect(arrayEquals(ar, res)).toBe(true);
+    });
+
+    test('construct queue from array with comparer', () => {
+        let preq: Array<IElementPriorityPair<number>> = [];
+        for(let i = 0; i < 100; i++) {
+            preq.push({ element: i, priority: i });
+        }
+        let queue = new Queue<number>(preq, reverseComparer<number>());
+        expect(queue.peek()).toEqual(99);
+        expect(queue.enqueueDequeue(-1, -1)).toEqual(99);
+        expect(queue.dequeueEnqueue(200, 200)).toEqual(98);
+        expect(queue.dequeue()).toEqual(200);
+    });
+
+    test('update priority and remove by handle', () => {
+        let queue = new Queue<number>();
+        let ar: Array<number> = [];
+        let handles: Array<any> = [];
+        for(let i = 0; i < cycles; i++) {
+            ar[i] = Math.random();
+            handles.push(queue.enqueue(i, ar[i]));
+        }
+        queue.dequeue();
+        for(let i = 0; i < cycles; i += 2) {
+            if(!queue.contains(handles[i]))
+                continue;
+            ar[i] = ar[i] < 0.5 ? ar[i] - 1 : ar[i] + 1;
+            queue.updatePriority(handles[i], ar[i]);
+        }
+        for(let i = 1; i < cycles; i += 4) {
+            if(queue.contains(handles[i])) {
+                expect(queue.remove(handles[i])).toEqual(i);
+                expect(queue.contains(handles[i])).toBe(false);
+            }
+        }
+        let prev = -Infinity;
+        while(queue.count != 0) {
+            let i = queue.dequeue();
+            expect(ar[i]).toBeGreaterThanOrEqual(prev);
+            prev = ar[i];
+        }
+        expect(() => queue.updatePriority(handles[0], 0)).toThrow(InvalidOperationException);
+    });
+
+    test('meld moves elements and keeps handles', () => {
+        let queue = new Queue<number>();
+        let other = new Queue<number>();
+        for(let i = 0; i < 100; i++) {
+            queue.enqueue(i, i);
+        }
+        let handle = other.enqueue(-1, 1000);
+        for(let i = 100; i < 200; i++) {
+            other.enqueue(i, i);
+        }
+        queue.meld(other);
+        expect(other.count).toEqual(0);
+        expect(queue.count).toEqual(201);
+        expect(queue.contains(handle)).toBe(true);
+        expect(other.contains(handle)).toBe(false);
+        queue.updatePriority(handle, -1);
+        expect(queue.dequeue()).toEqual(-1);
+        for(let i = 0; i < 200; i++) {
+            expect(queue.dequeue()).toEqual(i);
+        }
+    });
+
+    test('empty queue must throw exception', () => {
+        let queue = new Queue<number>();
+        expect(() => queue.peek()).toThrow(InvalidOperationException);
+        expect(() => queue.dequeue()).toThrow(InvalidOperationException);
+        expect(() => queue.dequeueEnqueue(1, 1)).toThrow(InvalidOperationException);
+        expect(() => queue.enqueueDequeue(1, 1)).toThrow(InvalidOperationException);
+        expect(queue.count).toEqual(0);
+        let handle = queue.enqueue(1, 1);
+        queue.clear();
+        expect(queue.contains(handle)).toBe(false);
+    });
+});
+
+describe('createPriorityQueue factory', () => {
+    test('creates queue of specified backend', () => {
+        expect(createPriorityQueue<number>()).toBeInstanceOf(PriorityQueue);
+        expect(createPriorityQueue<number>({ backend: 'pairing' })).toBeInstanceOf(PairingHeapPriorityQueue);
+        expect(createPriorityQueue<number>({ backend: 'binomial' })).toBeInstanceOf(BinomialHeapPriorityQueue);
+    });
+
+    test('passes range and comparer to backend', () => {
+        let range = [{ element: 'a', priority: 1 }, { element: 'b', priority: 2 }];
+        for(let backend of ['k-ary', 'pairing', 'binomial'] as const) {
+            let queue = createPriorityQueue<string>({ backend, range, comparer: reverseComparer<number>() });
+            expect(queue.dequeue()).toEqual('b');
+            expect(queue.dequeue()).toEqual('a');
+        }
+    });
+});
@@ -0,0 +1,95 @@
+import { ArgumentException, BoundedPriorityQueue, IElementPriorityPair, InvalidOperationException, reverseComparer } from '../src/index';
+
+const cycles: number = 10000;
+
+function arrayEquals(a: Array<any>, b: Array<any>) {
+    return a.length === b.length && a.every((val, index) => val === b[index]);
+}
+
+describe('bounded priority queue', () => {
+    test('keeps maxSize greatest elements', () => {
+        let queue = new BoundedPriorityQueue<number>(100);
+        let ar: Array<number> = [];
+        for(let i = 0; i < cycles; i++) {
+            ar[i] = Math.random();
+            queue.enqueue(ar[i], ar[i]);
+        }
+        expect(queue.count).toEqual(100);
+        ar.sort(function(a, b){return b-a});
+        expect(arrayEquals(ar.slice(0, 100), queue.toSortedArray())).toBe(true);
+        expect(queue.count).toEqual(100);
+        expect(queue.peek()).toEqual(ar[99]);
+    });
+
+    test('reports evicted elements by return value and callback', () => {
+        let evicted: Array<string> = [];
+        let queue = new BoundedPriorityQueue<string>(2, [], 4, { onEvict: (elem) => evicted.push(elem) });
+        expect(queue.enqueue('a', 1)).toBeUndefined();
+        expect(queue.enqueue('b', 2)).toBeUndefined();
+        expect(queue.enqueue('c', 3)).toEqual({ element: 'a', priority: 1 });
+        expect(queue.enqueue('d', 0)).toEqual({ element: 'd', priority: 0 });
+        expect(queue.enqueue('e', 2)).toEqual({ element: 'e', priority: 2 });
+        expect(evicted).toEqual(['a', 'd', 'e']);
+        expect(queue.toSortedArray()).toEqual(['c', 'b']);
+    });
+
+    test('k nearest neighbours with reversed comparer', () => {
+        let queue = new BoundedPriorityQueue<number>(3, [], 4, { comparer: reverseComparer<number>() });
+        [5, 1, 9, 3, 7, 2].forEach(d => queue.enqueue(d, d));
+        expect(queue.toSortedArray()).toEqual([1, 2, 3]);
+    });
+
+    test('enqueueRange fast path selects greatest elements', () => {
+        let evicted: Array<number> = [];
+        let queue = new BoundedPriorityQueue<number>(50, [], 4, { onEvict: (elem) => evicted.push(elem) });
+        let ar: Array<number> = [];
+        let range: Array<IElementPriorityPair<number>> = [];
+        for(let i = 0; i < cycles; i++) {
+            ar[i] = Math.random();
+            if(i < 20)
+                queue.enqueue(ar[i], ar[i]);
+            else
+                range.push({ element: ar[i], priority: ar[i] });
+        }
+        let result = queue.enqueueRange(range);
+        expect(result.length).toEqual(cycles - 50);
+        expect(evicted.length).toEqual(cycles - 50);
+        ar.sort(function(a, b){return b-a});
+        expect(arrayEquals(ar.slice(0, 50), queue.toSortedArray())).toBe(true);
+        let res: Array<number> = [];
+        while(queue.count != 0) {
+            res.push(queue.dequeue());
+        }
+        expect(arrayEquals(ar.slice(0, 50).reverse(), res)).toBe(true);
+    });
+
+    test('invalid maximum size must throw exception', () => {
+        expect(() => new BoundedPriorityQueue<number>(0)).toThrow(ArgumentException);
+        expect(() => new BoundedPriorityQueue<number>(-1)).toThrow(ArgumentException);
+        expect(() => new BoundedPriorityQueue<number>(2.5)).toThrow(ArgumentException);
+        expect(() => new BoundedPriorityQueue<number>(NaN)).toThrow(ArgumentException);
+    });
+
+    test('strict mode checks priorities before eviction', () => {
+        let evicted: Array<number> = [];
+        let queue = new BoundedPriorityQueue<number>(2, [], 4, { strict: true, onEvict: (elem) => evicted.push(elem) });
+        queue.enqueue(1, 1);
+        queue.enqueue(2, 2);
+        expect(() => queue.enqueue(3, NaN)).toThrow(ArgumentException);
+        expect(() => queue.enqueue(3, -Infinity)).toThrow(ArgumentException);
+        let range: Array<IElementPriorityPair<number>> = [];
+        for(let i = 0; i < 10; i++) {
+            range.push({ element: i + 10, priority: i + 10 });
+        }
+        range.push({ element: 0, priority: NaN });
+        expect(() => queue.enqueueRange(range)).toThrow(ArgumentException);
+        expect(evicted).toEqual([]);
+        expect(queue.toSortedArray()).toEqual([2, 1]);
+    });
+
+    test('empty queue must throw exception', () => {
+        let queue = new BoundedPriorityQueue<number>(10);
+        expect(() => queue.peek()).toThrow(InvalidOperationException);
+        expect(() => queue.dequeue()).toThrow(InvalidOperationException);
+    });
+});
@@ -0,0 +1,58 @@
+import { DelayQueue } from '../src/index';
+
+function fakeClock(start: number = 1000) {
+    let clock = { now: start, read: () => clock.now };
+    return clock;
+}
+
+describe('delay queue', () => {
+    test('elements are available after their ready time', () => {
+        let clock = fakeClock();
+        let queue = new DelayQueue<string>(4, { clock: clock.read });
+        queue.enqueue('late', 50);
+        queue.enqueue('soon', 10);
+        queue.enqueue('soon-2', 10);
+        queue.enqueueAt('past', 900);
+        expect(queue.nextReadyAt).toEqual(900);
+        expect(queue.pollReady()).toEqual(['past']);
+        expect(queue.nextReadyAt).toEqual(1010);
+        expect(queue.poll()).toBeUndefined();
+        clock.now = 1010;
+        expect(queue.pollReady()).toEqual(['soon', 'soon-2']);
+        expect(queue.pollReady(1100)).toEqual(['late']);
+        expect(queue.nextReadyAt).toBeUndefined();
+        expect(queue.count).toEqual(0);
+    });
+
+    test('poll returns one element', () => {
+        let clock = fakeClock();
+        let queue = new DelayQueue<number>(4, { clock: clock.read });
+        queue.enqueue(1, 0);
+        queue.enqueue(2, 0);
+        expect(queue.poll()).toEqual(1);
+        expect(queue.count).toEqual(1);
+        queue.clear();
+        expect(queue.poll()).toBeUndefined();
+    });
+
+    test('expired elements are dropped silently', () => {
+        let clock = fakeClock(0);
+        let queue = new DelayQueue<string>(4, { clock: clock.read, ttl: 100 });
+        queue.enqueue('default-ttl', 10);
+        queue.enqueue('short-ttl', 20, 5);
+        queue.enqueue('forever', 30, Infinity);
+        clock.now = 50;
+        expect(queue.count).toEqual(3);
+        expect(queue.pollReady()).toEqual(['default-ttl', 'forever']);
+
+        queue.enqueue('a', 0, 10);
+        queue.enqueue('b', 100, 10);
+        queue.enqueue('c', 200);
+        clock.now = 120;
+        expect(queue.nextReadyAt).toEqual(150);
+        expect(queue.count).toEqual(2);
+        clock.now = 1000;
+        expect(queue.purgeExpired()).toEqual(2);
+        expect(queue.count).toEqual(0);
+    });
+});
@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ArgumentException, InvalidOperationException, IElementCodec } from '../src/index';
+import { ExternalPriorityQueue } from '../src/ExternalPriorityQueue';
+
+const numberCodec: IElementCodec<number> = {
+    encode(elem: number): Uint8Array {
+        let bytes = new Uint8Array(4);
+        new DataView(bytes.buffer).setInt32(0, elem, true);
+        return bytes;
+    },
+    decode(bytes: Uint8Array): number {
+        return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getInt32(0, true);
+    }
+};
+
+describe('external priority queue', () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'external-test-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('spills runs and merges them in order', () => {
+        let queue = new ExternalPriorityQueue<number>(4, { memoryLimit: 100, maxRuns: 4, chunkSize: 64, directory: directory, elementCodec: numberCodec });
+        let values = Array.from({ length: 2000 }, (_, i) => (i * 7919) % 2000);
+        values.forEach(value => queue.enqueue(value, value));
+        expect(queue.count).toEqual(2000);
+        expect(queue.runCount).toBeGreaterThan(0);
+        expect(queue.runCount).toBeLessThan(4);
+        expect(fs.readdirSync(directory).length).toEqual(1);
+        expect(queue.unorderedItems.sort((x, y) => x - y)).toEqual(Array.from({ length: 2000 }, (_, i) => i));
+        let result: Array<number> = [];
+        for(let i = 0; i < 1000; i++)
+            result.push(queue.dequeue());
+        queue.enqueue(-1, -1);
+        expect(queue.peek()).toEqual(-1);
+        expect(queue.dequeueEnqueue(5000, 5000)).toEqual(-1);
+        expect(queue.enqueueDequeue(0, 0)).toEqual(0);
+        while(queue.count > 0)
+            result.push(queue.dequeue());
+        expect(result).toEqual([...Array.from({ length: 2000 }, (_, i) => i), 5000]);
+        expect(queue.runCount).toEqual(0);
+        queue.close();
+        expect(fs.readdirSync(directory)).toEqual([]);
+    });
+
+    test('json codec and large elements', () => {
+        let queue = new ExternalPriorityQueue<{ name: string }>(4, { memoryLimit: 3, chunkSize: 16, directory: directory });
+        queue.enqueueRange([
+            { element: { name: 'x'.repeat(100) }, priority: 3 },
+            { element: { name: 'b' }, priority: 2 },
+            { element: { name: 'a' }, priority: 1 },
+            { element: { name: 'd' }, priority: 4 },
+            { element: { name: 'c' }, priority: 2.5 }
+        ]);
+        expect(queue.runCount).toEqual(1);
+        expect(queue.peekEntry()).toEqual({ element: { name: 'a' }, priority: 1 });
+        let result: Array<string> = [];
+        while(queue.count > 0)
+            result.push(queue.dequeue().name.slice(0, 1));
+        expect(result).toEqual(['a', 'b', 'c', 'x', 'd']);
+        queue.close();
+    });
+
+    test('failed write leaves the queue unchanged', () => {
+        let queue = new ExternalPriorityQueue<number>(4, { memoryLimit: 10, maxRuns: 2, chunkSize: 1024, directory: directory, elementCodec: numberCodec });
+        for(let i = 0; i < 10; i++)
+            queue.enqueue(i, i);
+        let write = jest.spyOn(fs, 'writeSync').mockImplementationOnce(() => { throw new Error('disk full'); });
+        expect(() => queue.enqueue(10, 10)).toThrow('disk full');
+        write.mockRestore();
+        expect(queue.count).toEqual(10);
+        expect(queue.runCount).toEqual(0);
+        let temp = path.join(directory, fs.readdirSync(directory)[0]);
+        expect(fs.readdirSync(temp)).toEqual([]);
+
+        // the second spill succeeds, but merge of runs fails
+        for(let i = 10; i < 20; i++)
+            queue.enqueue(i, i);
+        let original = fs.writeSync;
+        let calls: number = 0;
+        write = jest.spyOn(fs, 'writeSync').mockImplementation((...args: Array<any>) => {
+            if(++calls > 1)
+                throw new Error('disk full');
+            return (original as (...args: Array<any>) => number)(...args);
+        });
+        expect(() => queue.enqueue(20, 20)).toThrow('disk full');
+        write.mockRestore();
+        expect(queue.count).toEqual(20);
+        expect(queue.runCount).toEqual(2);
+        expect(fs.readdirSync(temp).length).toEqual(2);
+        let result: Array<number> = [];
+        while(queue.count > 0)
+            result.push(queue.dequeue());
+        expect(result).toEqual(Array.from({ length: 20 }, (_, i) => i));
+        queue.close();
+    });
+
+    test('clear, close and errors', () => {
+        let queue = new ExternalPriorityQueue<number>(4, { memoryLimit: 2, directory: directory, elementCodec: numberCodec });
+        expect(() => queue.dequeue()).toThrow(InvalidOperationException);
+        expect(() => queue.enqueue(1, NaN)).toThrow(ArgumentException);
+        expect(() => queue.enqueueRange([{ element: 1, priority: 1 }, { element: 2, priority: NaN }])).toThrow(ArgumentException);
+        expect(queue.count).toEqual(0);
+        for(let i = 0; i < 10; i++)
+            queue.enqueue(i, i);
+        let temp = path.join(directory, fs.readdirSync(directory)[0]);
+        expect(fs.readdirSync(temp).length).toEqual(queue.runCount);
+        queue.clear();
+        expect(queue.count).toEqual(0);
+        expect(fs.readdirSync(temp)).toEqual([]);
+        queue.enqueue(1, 1);
+        queue.close();
+        expect(queue.closed).toBe(true);
+        expect(fs.existsSync(temp)).toBe(false);
+        expect(() => queue.enqueue(1, 1)).toThrow(InvalidOperationException);
+        expect(() => new ExternalPriorityQueue(4, { memoryLimit: 0 })).toThrow(ArgumentException);
+    });
+});
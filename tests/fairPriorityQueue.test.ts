@@ -0,0 +1,138 @@
+import { FairPriorityQueue, ArgumentException, InvalidOperationException } from '../src/index';
+
+interface IRequest {
+    tenant: string;
+    id: number;
+    size?: number;
+}
+
+function tenantsOf(requests: Array<IRequest>): string {
+    return requests.map(request => request.tenant).join('');
+}
+
+describe('fair priority queue', () => {
+    test('weighted round-robin shares throughput by weights', () => {
+        let queue = new FairPriorityQueue<string, IRequest>(request => request.tenant);
+        queue.addTenant('a', 2);
+        for(let i = 0; i < 10; i++) {
+            queue.enqueue({ tenant: 'a', id: i }, 10 - i);
+            queue.enqueue({ tenant: 'b', id: i }, i);
+        }
+        expect(queue.count).toEqual(20);
+        expect(queue.countOf('a')).toEqual(10);
+        expect(queue.tenants).toEqual(['a', 'b']);
+        let served: Array<IRequest> = [];
+        for(let i = 0; i < 9; i++)
+            served.push(queue.dequeue());
+        expect(tenantsOf(served)).toEqual('aabaabaab');
+        expect(served.filter(request => request.tenant == 'a').map(request => request.id)).toEqual([9, 8, 7, 6, 5, 4]);
+        expect(served.filter(request => request.tenant == 'b').map(request => request.id)).toEqual([0, 1, 2]);
+        expect(queue.countOf('b')).toEqual(7);
+        queue.setWeight('b', 3);
+        queue.setWeight('a', 1);
+        let next: Array<IRequest> = [];
+        for(let i = 0; i < 8; i++)
+            next.push(queue.dequeue());
+        expect(tenantsOf(next)).toEqual('abbbabbb');
+    });
+
+    test('deficit round-robin charges cost of elements', () => {
+        let queue = new FairPriorityQueue<string, IRequest>(request => request.tenant, 4, {
+            policy: 'deficit', quantum: 100, cost: request => request.size as number
+        });
+        for(let i = 0; i < 6; i++) {
+            queue.enqueue({ tenant: 'big', id: i, size: 150 }, i);
+            queue.enqueue({ tenant: 'small', id: i, size: 50 }, i);
+        }
+        let served: Array<IRequest> = [];
+        for(let i = 0; i < 8; i++)
+            served.push(queue.dequeue());
+        expect(tenantsOf(served).replace(/big/g, 'B').replace(/small/g, 's')).toEqual('ssBssBss');
+        let head = queue.peek();
+        expect(queue.peek()).toBe(head);
+        expect(queue.dequeue()).toBe(head);
+        expect(() => queue.enqueue({ tenant: 'big', id: 9, size: NaN }, 0)).toThrow(ArgumentException);
+    });
+
+    test('tenants can be added and removed at runtime', () => {
+        let queue = new FairPriorityQueue<number, number>(value => value % 3, 2, { autoAddTenants: false, stable: true });
+        expect(() => queue.enqueue(1, 1)).toThrow(InvalidOperationException);
+        queue.addTenant(0);
+        queue.addTenant(1);
+        queue.addTenant(2);
+        expect(() => queue.addTenant(2)).toThrow(InvalidOperationException);
+        expect(() => queue.addTenant(3, 0)).toThrow(ArgumentException);
+        expect(() => queue.enqueueRange([{ element: 0, priority: 0 }, { element: 5, priority: 0 }])).not.toThrow();
+        queue.enqueueRange(Array.from({ length: 12 }, (_, i) => ({ element: i, priority: 0 })));
+        expect(queue.count).toEqual(14);
+        expect(queue.removeTenant(1)).toEqual([1, 4, 7, 10]);
+        expect(queue.hasTenant(1)).toBe(false);
+        expect(queue.count).toEqual(10);
+        expect(() => queue.countOf(1)).toThrow(InvalidOperationException);
+        let served: Array<number> = [];
+        while(queue.count > 0)
+            served.push(queue.dequeue() % 3);
+        expect(served).toEqual([0, 2, 0, 2, 0, 2, 0, 2, 0, 2]);
+        expect(() => queue.dequeue()).toThrow(InvalidOperationException);
+        expect(() => queue.enqueueDequeue(0, 0)).toThrow(InvalidOperationException);
+        queue.enqueue(3, 1);
+        expect(queue.dequeueEnqueue(6, 0)).toEqual(3);
+        expect(queue.enqueueDequeue(9, 5)).toEqual(6);
+        expect(queue.unorderedItems).toEqual([9]);
+        queue.clear();
+        expect(queue.count).toEqual(0);
+        expect(queue.weightOf(0)).toEqual(1);
+    });
+
+    test('enqueueDequeue works on combined view and bulk operations validate priorities first', () => {
+        let queue = new FairPriorityQueue<string, string>(elem => elem[0], 4, { strict: true });
+        queue.enqueue('a1', 1);
+        queue.enqueue('b1', 1);
+        expect(queue.enqueueDequeue('b0', 0)).toEqual('a1');
+        expect(queue.countOf('b')).toEqual(2);
+        expect(() => queue.enqueueRange([{ element: 'a2', priority: 2 }, { element: 'c1', priority: NaN }])).toThrow(ArgumentException);
+        expect(queue.count).toEqual(2);
+        expect(queue.countOf('a')).toEqual(0);
+        expect(() => queue.dequeueEnqueue('a3', NaN)).toThrow(ArgumentException);
+        expect(queue.count).toEqual(2);
+        expect(queue.dequeue()).toEqual('b0');
+    });
+
+    test('invalid priority adds no tenant', () => {
+        let queue = new FairPriorityQueue<string, string>(elem => elem[0], 4, { strict: true });
+        expect(() => queue.enqueue('a1', NaN)).toThrow(ArgumentException);
+        expect(() => queue.enqueueRange([{ element: 'b1', priority: 1 }, { element: 'c1', priority: NaN }])).toThrow(ArgumentException);
+        expect(queue.tenants).toEqual([]);
+        queue.enqueue('d1', 1);
+        expect(() => queue.dequeueEnqueue('e1', NaN)).toThrow(ArgumentException);
+        expect(queue.tenants).toEqual(['d']);
+        expect(queue.count).toEqual(1);
+    });
+
+    test('peek does not change round-robin', () => {
+        let peeked = new FairPriorityQueue<string, IRequest>(request => request.tenant, 4, { policy: 'deficit', quantum: 2, cost: request => request.size ?? 1 });
+        let plain = new FairPriorityQueue<string, IRequest>(request => request.tenant, 4, { policy: 'deficit', quantum: 2, cost: request => request.size ?? 1 });
+        for(let queue of [peeked, plain]) {
+            for(let i = 0; i < 6; i++) {
+                queue.enqueue({ tenant: 'a', id: i, size: 3 }, i);
+                queue.enqueue({ tenant: 'b', id: i }, i);
+            }
+        }
+        let first: IRequest = peeked.peek();
+        expect(peeked.peek()).toBe(first);
+
+        // credit of the turn is given at dequeue, so new weight already applies to it
+        peeked.setWeight('a', 3);
+        plain.setWeight('a', 3);
+        let served: Array<IRequest> = [];
+        let expected: Array<IRequest> = [];
+        while(plain.count > 0) {
+            let next: IRequest = peeked.peek();
+            served.push(peeked.dequeue());
+            expect(served[served.length - 1]).toBe(next);
+            expected.push(plain.dequeue());
+        }
+        expect(tenantsOf(served)).toEqual(tenantsOf(expected));
+        expect(served.map(request => request.id)).toEqual(expected.map(request => request.id));
+    });
+});
\ No newline at end of file
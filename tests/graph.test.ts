@@ -0,0 +1,97 @@
+import { dijkstra, aStar, primMST, kShortestPaths, reconstructPath, IGraphEdge, ArgumentException, InvalidOperationException } from '../src/index';
+
+// directed graph from Yen's algorithm example
+const edges: { [node: string]: Array<IGraphEdge<string>> } = {
+    C: [{ node: 'D', weight: 3 }, { node: 'E', weight: 2 }],
+    D: [{ node: 'F', weight: 4 }],
+    E: [{ node: 'D', weight: 1 }, { node: 'F', weight: 2 }, { node: 'G', weight: 3 }],
+    F: [{ node: 'G', weight: 2 }, { node: 'H', weight: 1 }],
+    G: [{ node: 'H', weight: 2 }],
+    H: []
+};
+const neighbours = (node: string) => edges[node];
+
+
+describe('graph algorithms', () => {
+    test('dijkstra finds all distances and predecessors', () => {
+        let paths = dijkstra('C', neighbours);
+        expect(Object.fromEntries(paths.distances)).toEqual({ C: 0, E: 2, D: 3, F: 4, G: 5, H: 5 });
+        expect(reconstructPath(paths, 'H')).toEqual(['C', 'E', 'F', 'H']);
+        expect(reconstructPath(paths, 'C')).toEqual(['C']);
+        expect(reconstructPath(paths, 'X')).toBeUndefined();
+    });
+
+    test('dijkstra stops at target', () => {
+        let visited: Array<string> = [];
+        let paths = dijkstra('C', node => { visited.push(node); return edges[node]; }, 'D');
+        expect(paths.distances.get('D')).toEqual(3);
+        expect(paths.distances.has('H')).toBe(false);
+        expect(visited).not.toContain('D');
+    });
+
+    test('dijkstra rejects negative weights', () => {
+        expect(() => dijkstra(0, node => node == 0 ? [{ node: 1, weight: -1 }] : [])).toThrow(InvalidOperationException);
+    });
+
+    test('a* on grid settles fewer nodes than dijkstra', () => {
+        let keys = new Map<string, [number, number]>();
+        let key = (x: number, y: number) => {
+            let id = `${x},${y}`;
+            if(!keys.has(id))
+                keys.set(id, [x, y]);
+            return keys.get(id) as [number, number];
+        };
+        let size = 30;
+        let grid = ([x, y]: [number, number]) => [[1, 0], [-1, 0], [0, 1], [0, -1]]
+            .filter(([dx, dy]) => x + dx >= 0 && x + dx < size && y + dy >= 0 && y + dy < size && !(x + dx == 15 && y + dy < 25))
+            .map(([dx, dy]) => ({ node: key(x + dx, y + dy), weight: 1 }));
+        let source = key(0, 0);
+        let target = key(29, 0);
+        let heuristic = ([x, y]: [number, number]) => Math.abs(x - 29) + Math.abs(y);
+        let astar = aStar(source, target, grid, heuristic);
+        let plain = dijkstra(source, grid, target);
+        expect(astar.distances.get(target)).toEqual(plain.distances.get(target));
+        expect(astar.distances.get(target)).toEqual(29 + 2 * 25);
+        expect(astar.distances.size).toBeLessThan(plain.distances.size);
+        let path = reconstructPath(astar, target) as Array<[number, number]>;
+        expect(path.length).toEqual(29 + 2 * 25 + 1);
+        expect(path[0]).toBe(source);
+    });
+
+    test('prim builds minimum spanning tree', () => {
+        let undirected: { [node: number]: Array<IGraphEdge<number>> } = {};
+        let add = (a: number, b: number, weight: number) => {
+            (undirected[a] = undirected[a] ?? []).push({ node: b, weight });
+            (undirected[b] = undirected[b] ?? []).push({ node: a, weight });
+        };
+        add(0, 1, 4); add(0, 7, 8); add(1, 2, 8); add(1, 7, 11); add(2, 3, 7); add(2, 8, 2); add(2, 5, 4);
+        add(3, 4, 9); add(3, 5, 14); add(4, 5, 10); add(5, 6, 2); add(6, 7, 1); add(6, 8, 6); add(7, 8, 7);
+        let tree = primMST(0, node => undirected[node]);
+        expect(tree.weight).toEqual(37);
+        expect(tree.edges.length).toEqual(8);
+        expect(tree.predecessors.size).toEqual(8);
+        expect(tree.edges[0]).toEqual({ from: 0, to: 1, weight: 4 });
+    });
+
+    test('yen finds k shortest loopless paths', () => {
+        let paths = kShortestPaths('C', 'H', neighbours, 3);
+        expect(paths).toEqual([
+            { nodes: ['C', 'E', 'F', 'H'], distance: 5 },
+            { nodes: ['C', 'E', 'G', 'H'], distance: 7 },
+            { nodes: ['C', 'D', 'F', 'H'], distance: 8 }
+        ]);
+        expect(kShortestPaths('C', 'H', neighbours, 100).length).toEqual(7);
+        expect(kShortestPaths('H', 'C', neighbours, 3)).toEqual([]);
+    });
+
+    test('k shortest paths validates k before search', () => {
+        let visited: number = 0;
+        let counting = (node: string) => {
+            visited++;
+            return neighbours(node);
+        };
+        expect(() => kShortestPaths('C', 'H', counting, 0)).toThrow(ArgumentException);
+        expect(() => kShortestPaths('C', 'H', counting, 1.5)).toThrow(ArgumentException);
+        expect(visited).toEqual(0);
+    });
+});
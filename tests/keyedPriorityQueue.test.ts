@@ -0,0 +1,86 @@
+import { KeyedPriorityQueue, InvalidOperationException, ArgumentException, reverseComparer } from '../src/index';
+
+describe('keyed priority queue', () => {
+    test('set inserts once per key and dequeue removes key', () => {
+        let queue = new KeyedPriorityQueue<string, string>();
+        expect(queue.set('a', 'A', 3)).toBe(true);
+        expect(queue.set('b', 'B', 1)).toBe(true);
+        expect(queue.set('a', 'A2', 0)).toBe(true);
+        expect(queue.count).toEqual(2);
+        expect(queue.get('a')).toEqual('A2');
+        expect(queue.priorityOf('a')).toEqual(0);
+        expect(queue.dequeueEntry()).toEqual({ key: 'a', element: 'A2', priority: 0 });
+        expect(queue.has('a')).toBe(false);
+        expect(queue.get('a')).toBeUndefined();
+        expect(queue.dequeue()).toEqual('B');
+        expect(queue.count).toEqual(0);
+        expect(() => queue.dequeue()).toThrow(InvalidOperationException);
+        expect(() => queue.peek()).toThrow(InvalidOperationException);
+    });
+
+    test('keepLower policy keeps lower priority', () => {
+        let queue = new KeyedPriorityQueue<number, string>(4, { updatePolicy: 'keepLower' });
+        queue.set(1, 'first', 5);
+        expect(queue.set(1, 'worse', 7)).toBe(false);
+        expect(queue.set(1, 'same', 5)).toBe(false);
+        expect(queue.set(1, 'better', 2)).toBe(true);
+        expect(queue.get(1)).toEqual('better');
+        expect(queue.priorityOf(1)).toEqual(2);
+    });
+
+    test('keepHigher policy with comparer', () => {
+        let queue = new KeyedPriorityQueue<string, string>(4, { updatePolicy: 'keepHigher', comparer: reverseComparer() });
+        queue.set('x', 'first', 5);
+        expect(queue.set('x', 'later', 7)).toBe(false);
+        expect(queue.set('x', 'dequeued later', 3)).toBe(true);
+        expect(queue.priorityOf('x')).toEqual(3);
+    });
+
+    test('delete and updates keep heap order', () => {
+        let queue = new KeyedPriorityQueue<number, number>();
+        for(let i = 0; i < 200; i++)
+            queue.set(i, i, (i * 37) % 101);
+        for(let i = 0; i < 200; i += 3)
+            expect(queue.delete(i)).toBe(true);
+        expect(queue.delete(0)).toBe(false);
+        for(let i = 1; i < 200; i += 3)
+            queue.set(i, i, -i);
+        let expected = Array.from(queue).sort((a, b) => a.priority - b.priority).map(entry => entry.priority);
+        let result: Array<number> = [];
+        while(queue.count > 0) {
+            let entry = queue.dequeueEntry();
+            expect(queue.has(entry.key)).toBe(false);
+            result.push(entry.priority);
+        }
+        expect(result).toEqual(expected);
+    });
+
+    test('rejected update in strict mode keeps entry', () => {
+        let queue = new KeyedPriorityQueue<string, string>(4, { strict: true });
+        queue.set('a', 'A', 2);
+        queue.set('b', 'B', 1);
+        expect(() => queue.set('a', 'A2', NaN)).toThrow(ArgumentException);
+        expect(queue.get('a')).toEqual('A');
+        expect(queue.priorityOf('a')).toEqual(2);
+        expect(queue.dequeueEntry()).toEqual({ key: 'b', element: 'B', priority: 1 });
+        expect(queue.dequeueEntry()).toEqual({ key: 'a', element: 'A', priority: 2 });
+    });
+
+    test('rejected insert in strict mode adds no key', () => {
+        let queue = new KeyedPriorityQueue<string, string>(4, { strict: true });
+        expect(() => queue.set('a', 'A', NaN)).toThrow(ArgumentException);
+        expect(queue.has('a')).toBe(false);
+        expect(queue.count).toEqual(0);
+        expect(Array.from(queue)).toEqual([]);
+    });
+
+    test('clear removes keys', () => {
+        let queue = new KeyedPriorityQueue<string, number>();
+        queue.set('a', 1, 1);
+        queue.clear();
+        expect(queue.has('a')).toBe(false);
+        expect(queue.unorderedItems).toEqual([]);
+        queue.set('a', 2, 2);
+        expect(queue.peekEntry()).toEqual({ key: 'a', element: 2, priority: 2 });
+    });
+});
@@ -0,0 +1,79 @@
+import { MinMaxPriorityQueue, IElementPriorityPair, InvalidOperationException } from '../src/index';
+
+const cycles: number = 10000;
+
+function arrayEquals(a: Array<any>, b: Array<any>) {
+    return a.length === b.length && a.every((val, index) => val === b[index]);
+}
+
+describe('min-max priority queue', () => {
+    test('dequeue from both ends', () => {
+        let queue = new MinMaxPriorityQueue<number>();
+        let ar: Array<number> = [];
+        for(let i = 0; i < cycles; i++) {
+            ar[i] = Math.random();
+            queue.enqueue(ar[i], ar[i]);
+        }
+        ar.sort(function(a, b){return a-b});
+        let low: Array<number> = [];
+        let high: Array<number> = [];
+        while(queue.count != 0) {
+            expect(queue.peek()).toEqual(ar[low.length]);
+            low.push(queue.dequeue());
+            if(queue.count != 0) {
+                expect(queue.peekMax()).toEqual(ar[ar.length - high.length - 1]);
+                high.push(queue.dequeueMax());
+            }
+        }
+        expect(arrayEquals(ar, low.concat(high.reverse()))).toBe(true);
+    });
+
+    test('construct queue from array', () => {
+        let ar: Array<number> = [];
+        let preq: Array<IElementPriorityPair<number>> = [];
+        for(let i = 0; i < cycles; i++) {
+            ar[i] = Math.random();
+            preq.push({ element: ar[i], priority: ar[i] });
+        }
+        let queue = new MinMaxPriorityQueue<number>(preq);
+        let res: Array<number> = [];
+        while(queue.count != 0) {
+            res.push(queue.dequeueMax());
+        }
+        ar.sort(function(a, b){return b-a});
+        expect(arrayEquals(ar, res)).toBe(true);
+    });
+
+    test('enqueueDequeue on both sides', () => {
+        let queue = new MinMaxPriorityQueue<number>();
+        let ar: Array<number> = [];
+        for(let i = 0; i < 1000; i++) {
+            ar.push(i);
+            queue.enqueue(i, i);
+        }
+        expect(queue.enqueueDequeue(-1, -1)).toEqual(-1);
+        expect(queue.enqueueDequeue(500.5, 500.5)).toEqual(0);
+        expect(queue.enqueueDequeueMax(2000, 2000)).toEqual(2000);
+        expect(queue.enqueueDequeueMax(-5, -5)).toEqual(999);
+        expect(queue.dequeueEnqueue(10, 10)).toEqual(-5);
+        expect(queue.peek()).toEqual(1);
+        expect(queue.peekMax()).toEqual(998);
+        let res: Array<number> = [];
+        while(queue.count != 0) {
+            res.push(queue.dequeue());
+        }
+        let expected = ar.slice(1, 999).concat([500.5, 10]).sort(function(a, b){return a-b});
+        expect(arrayEquals(expected, res)).toBe(true);
+    });
+
+    test('empty queue must throw exception', () => {
+        let queue = new MinMaxPriorityQueue<number>();
+        expect(() => queue.peek()).toThrow(InvalidOperationException);
+        expect(() => queue.peekMax()).toThrow(InvalidOperationException);
+        expect(() => queue.dequeue()).toThrow(InvalidOperationException);
+        expect(() => queue.dequeueMax()).toThrow(InvalidOperationException);
+        expect(() => queue.dequeueEnqueue(1, 1)).toThrow(InvalidOperationException);
+        expect(() => queue.enqueueDequeue(1, 1)).toThrow(InvalidOperationException);
+        expect(() => queue.enqueueDequeueMax(1, 1)).toThrow(InvalidOperationException);
+    });
+});
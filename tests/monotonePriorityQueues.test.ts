@@ -0,0 +1,77 @@
+import { PriorityQueue, RadixHeapPriorityQueue, BucketPriorityQueue, ArgumentException, InvalidOperationException, IElementPriorityPair, IPriorityQueue } from '../src/index';
+
+type MonotoneQueueConstructor = new <T>(range?: Array<IElementPriorityPair<T>>) => IPriorityQueue<T> & { lastPriority: number };
+
+describe.each([
+    ['radix heap', RadixHeapPriorityQueue as MonotoneQueueConstructor],
+    ['bucket queue', BucketPriorityQueue as MonotoneQueueConstructor],
+])('%s', (name, Queue) => {
+    test('monotone workload matches PriorityQueue', () => {
+        let queue = new Queue<number>();
+        let reference = new PriorityQueue<number>();
+        let seed = 7;
+        let random = (n: number) => {
+            seed = (seed * 1103515245 + 12345) % 2147483648;
+            return seed % n;
+        };
+        queue.enqueue(0, 0);
+        reference.enqueue(0, 0);
+        for(let i = 0; i < 5000; i++) {
+            let priority = reference.peekEntry().priority;
+            expect(queue.peek()).toEqual(priority);
+            expect(queue.dequeue()).toEqual(reference.dequeue());
+            expect(queue.lastPriority).toEqual(priority);
+            for(let j = random(4); j > 0; j--) {
+                let next = priority + random(i % 100 == 0 ? 100000 : 20);
+                queue.enqueue(next, next);
+                reference.enqueue(next, next);
+            }
+            if(reference.count == 0) {
+                queue.enqueue(priority, priority);
+                reference.enqueue(priority, priority);
+            }
+            expect(queue.count).toEqual(reference.count);
+        }
+        expect(queue.unorderedItems.sort((a, b) => a - b)).toEqual(reference.unorderedItems.sort((a, b) => a - b));
+    });
+
+    test('enqueue below last dequeued priority throws', () => {
+        let queue = new Queue<string>([{ element: 'a', priority: 10 }, { element: 'b', priority: 20 }]);
+        expect(queue.dequeue()).toEqual('a');
+        expect(() => queue.enqueue('c', 9)).toThrow(ArgumentException);
+        expect(() => queue.enqueue('c', 1.5)).toThrow(ArgumentException);
+        expect(() => queue.enqueue('c', -1)).toThrow(ArgumentException);
+        expect(() => queue.enqueueRange([{ element: 'd', priority: 15 }, { element: 'e', priority: 5 }])).toThrow(ArgumentException);
+        expect(queue.count).toEqual(1);
+        expect(() => queue.dequeueEnqueue('f', 15)).toThrow(ArgumentException);
+        queue.enqueue('c', 10);
+        expect(queue.peek()).toEqual('c');
+        queue.clear();
+        expect(queue.lastPriority).toEqual(0);
+        expect(() => queue.dequeue()).toThrow(InvalidOperationException);
+        expect(() => queue.peek()).toThrow(InvalidOperationException);
+    });
+
+    test('enqueueDequeue and dequeueEnqueue', () => {
+        let queue = new Queue<number>([{ element: 5, priority: 5 }, { element: 8, priority: 8 }]);
+        expect(queue.enqueueDequeue(3, 5)).toEqual(3);
+        expect(queue.enqueueDequeue(7, 7)).toEqual(5);
+        expect(queue.dequeueEnqueue(1000, 1000)).toEqual(7);
+        expect(queue.dequeue()).toEqual(8);
+        expect(queue.dequeue()).toEqual(1000);
+        expect(() => queue.enqueueDequeue(2000, 2000)).toThrow(InvalidOperationException);
+    });
+});
+
+test('radix heap handles priorities above 2^32', () => {
+    let queue = new RadixHeapPriorityQueue<number>();
+    let big = Math.pow(2, 40);
+    queue.enqueue(big + 5, big + 5);
+    queue.enqueue(big, big);
+    queue.enqueue(Math.pow(2, 33), Math.pow(2, 33));
+    queue.enqueue(Number.MAX_SAFE_INTEGER, Number.MAX_SAFE_INTEGER);
+    expect(queue.dequeue()).toEqual(Math.pow(2, 33));
+    expect(queue.dequeue()).toEqual(big);
+    expect(queue.dequeue()).toEqual(big + 5);
+    expect(queue.dequeue()).toEqual(Number.MAX_SAFE_INTEGER);
+});
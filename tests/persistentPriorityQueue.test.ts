@@ -0,0 +1,54 @@
+import { PersistentPriorityQueue, InvalidOperationException, reverseComparer } from '../src/index';
+
+function drain<T, TPriority>(queue: PersistentPriorityQueue<T, TPriority>): Array<T> {
+    let result: Array<T> = [];
+    while(queue.count > 0) {
+        result.push(queue.peek());
+        queue = queue.dequeue();
+    }
+    return result;
+}
+
+describe('persistent priority queue', () => {
+    test('old versions stay valid', () => {
+        let empty = new PersistentPriorityQueue<string>();
+        let v1 = empty.enqueue('b', 2);
+        let v2 = v1.enqueue('a', 1);
+        let v3 = v2.dequeue();
+        let v4 = v2.enqueue('c', 0);
+        expect(empty.count).toEqual(0);
+        expect(v1.peek()).toEqual('b');
+        expect(v2.peekEntry()).toEqual({ element: 'a', priority: 1 });
+        expect(v3.count).toEqual(1);
+        expect(v3.peek()).toEqual('b');
+        expect(drain(v4)).toEqual(['c', 'a', 'b']);
+        expect(drain(v2)).toEqual(['a', 'b']);
+        expect(v4.count).toEqual(3);
+    });
+
+    test('build, enqueueRange and merge', () => {
+        let values = Array.from({ length: 500 }, (_, i) => (i * 7919) % 500);
+        let queue = new PersistentPriorityQueue<number>(values.map(value => ({ element: value, priority: value })));
+        expect(queue.count).toEqual(500);
+        expect(queue.unorderedItems.sort((x, y) => x - y)).toEqual(values.slice().sort((x, y) => x - y));
+        let more = queue.enqueueRange([{ element: -1, priority: -1 }, { element: 1000, priority: 1000 }]);
+        let merged = more.merge(new PersistentPriorityQueue<number>().enqueue(-2, -2));
+        expect(merged.count).toEqual(503);
+        let result = drain(merged);
+        expect(result.slice(0, 3)).toEqual([-2, -1, 0]);
+        expect(result.every((value, i) => i == 0 || result[i - 1] <= value)).toBe(true);
+        expect(queue.peek()).toEqual(0);
+        expect(queue.clear().count).toEqual(0);
+    });
+
+    test('comparer and errors', () => {
+        let queue = new PersistentPriorityQueue<number>([], reverseComparer<number>());
+        queue = queue.enqueue(1, 1).enqueue(3, 3).enqueue(2, 2);
+        expect(drain(queue)).toEqual([3, 2, 1]);
+        let empty = queue.clear();
+        expect(() => empty.peek()).toThrow(InvalidOperationException);
+        expect(() => empty.peekEntry()).toThrow(InvalidOperationException);
+        expect(() => empty.dequeue()).toThrow(InvalidOperationException);
+        expect(Array.from(empty)).toEqual([]);
+    });
+});
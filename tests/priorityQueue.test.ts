@@ -1,6 +1,6 @@
 import { Console, count } from 'console';
 //import { IElementPriorityPair } from '../src/IElementPriorityPair';
-import { PriorityQueue, InvalidOperationException, IElementPriorityPair } from '../src/PriorityQueue';
+import { PriorityQueue, InvalidOperationException, IElementPriorityPair, defaultComparer, reverseComparer, SerializationException, ArgumentException, PriorityQueueException, QueueCheckpoint, QueueHandle } from '../src/index';
 //import { InvalidOperationException } from '../src/InvalidOperationException';
 
 class Pair implements IElementPriorityPair<number> {
@@ -228,4 +228,763 @@ describe('queue expanded functionality', () => {
         }
         expect(arrayEquals(ar, res)).toEqual(true);
     });
-});
\ No newline at end of file
+});
+describe('handle-based functionality', () => {
+    test('update priority moves element in both directions', () => {
+        let queue = prepareQueue();
+        let handle = queue.enqueue(-1, 5);
+        queue.updatePriority(handle, -1);
+        expect(queue.peek()).toEqual(-1);
+        queue.updatePriority(handle, 5);
+        expect(queue.peek()).not.toEqual(-1);
+        expect(queue.contains(handle)).toBe(true);
+    });
+
+    test('remove element by handle keeps queue ordered', () => {
+        let queue = new PriorityQueue<number>();
+        let ar: Array<number> = [];
+        let handles = [];
+        for(let i = 0; i < cycles; i++) {
+            ar[i] = Math.random();
+            handles.push(queue.enqueue(ar[i], ar[i]));
+        }
+        for(let i = 0; i < cycles; i += 3) {
+            expect(queue.remove(handles[i])).toEqual(ar[i]);
+            expect(queue.contains(handles[i])).toBe(false);
+        }
+        let expected = ar.filter((v, i) => i % 3 != 0).sort(function(a, b){return a-b});
+        let res: Array<number> = [];
+        while(queue.count != 0) {
+            res.push(queue.dequeue());
+        }
+        expect(arrayEquals(expected, res)).toBe(true);
+    });
+
+    test('handle goes stale when its slot is reused', () => {
+        let queue = new PriorityQueue<number>();
+        let handle = queue.enqueue(1, 1);
+        queue.dequeue();
+        let reused = queue.enqueue(2, 2);
+        expect(queue.contains(handle)).toBe(false);
+        expect(queue.contains(reused)).toBe(true);
+        expect(() => queue.updatePriority(handle, 0)).toThrow(InvalidOperationException);
+        expect(() => queue.remove(handle)).toThrow(InvalidOperationException);
+        queue.clear();
+        expect(queue.contains(reused)).toBe(false);
+    });
+
+    test('handle of another queue is rejected', () => {
+        let queue = new PriorityQueue<number>();
+        let other = new PriorityQueue<number>();
+        let handle = other.enqueue(1, 1);
+        queue.enqueue(1, 1);
+        expect(queue.contains(handle)).toBe(false);
+    });
+});
+
+describe('custom priority type and comparer', () => {
+    test('string priorities with default comparer', () => {
+        let queue = new PriorityQueue<number, string>();
+        ['d', 'b', 'a', 'c'].forEach((p, i) => queue.enqueue(i, p));
+        let res: Array<number> = [];
+        while(queue.count != 0) {
+            res.push(queue.dequeue());
+        }
+        expect(res).toEqual([2, 1, 3, 0]);
+    });
+
+    test('bigint priorities as max-heap', () => {
+        let queue = new PriorityQueue<string, bigint>([], 4, reverseComparer<bigint>());
+        queue.enqueue('small', BigInt(1));
+        queue.enqueue('huge', BigInt('1180591620717411303424'));
+        queue.enqueue('middle', BigInt('1152921504606846976'));
+        expect(queue.dequeue()).toEqual('huge');
+        expect(queue.dequeue()).toEqual('middle');
+        expect(queue.dequeue()).toEqual('small');
+    });
+
+    test('tuple priorities with custom comparer', () => {
+        let comparer = (x: [number, number], y: [number, number]) => x[0] - y[0] || x[1] - y[1];
+        let ar: Array<[number, number]> = [];
+        let preq: Array<IElementPriorityPair<[number, number], [number, number]>> = [];
+        for(let i = 0; i < cycles; i++) {
+            ar[i] = [Math.floor(Math.random() * 10), Math.random()];
+            preq.push({ element: ar[i], priority: ar[i] });
+        }
+        let queue = new PriorityQueue<[number, number], [number, number]>(preq, 4, comparer);
+        let res: Array<[number, number]> = [];
+        while(queue.count != 0) {
+            res.push(queue.dequeue());
+        }
+        ar.sort(comparer);
+        expect(arrayEquals(ar, res)).toBe(true);
+    });
+
+    test('update priority with Date priorities', () => {
+        let queue = new PriorityQueue<string, Date>();
+        let handle = queue.enqueue('late', new Date(2030, 0, 1));
+        queue.enqueue('early', new Date(2020, 0, 1));
+        queue.updatePriority(handle, new Date(2010, 0, 1));
+        expect(queue.peek()).toEqual('late');
+    });
+
+    test('bigint priorities with native comparison', () => {
+        let queue = new PriorityQueue<string, bigint>([{ element: 'huge', priority: BigInt('1180591620717411303424') }]);
+        queue.enqueue('middle', BigInt('1152921504606846976'));
+        queue.enqueue('small', BigInt(1));
+        expect(queue.dequeue()).toEqual('small');
+        expect(queue.dequeue()).toEqual('middle');
+        expect(queue.dequeue()).toEqual('huge');
+    });
+
+    test('string priorities keep native comparison through growth, update, clone and map', () => {
+        let queue = new PriorityQueue<string, string>([], 4, { initialCapacity: 2 });
+        ['d', 'b', 'e', 'a'].forEach(p => queue.enqueue(p, p));
+        let handle = queue.enqueue('c', 'c');
+        queue.updatePriority(handle, 'aa');
+        queue.validate();
+        expect(queue.peekEntry()).toEqual({ element: 'a', priority: 'a' });
+        expect(queue.clone().dequeueMany(5)).toEqual(['a', 'c', 'b', 'd', 'e']);
+        expect(queue.map(element => element + '!').dequeueMany(2)).toEqual(['a!', 'c!']);
+        expect(PriorityQueue.fromJSON<string, string>(JSON.stringify(queue)).dequeueMany(5)).toEqual(['a', 'c', 'b', 'd', 'e']);
+    });
+});
+
+describe('stable mode', () => {
+    function drain(queue: PriorityQueue<number>): Array<number> {
+        let res: Array<number> = [];
+        while(queue.count != 0) {
+            res.push(queue.dequeue());
+        }
+        return res;
+    }
+
+    test('equal priorities are dequeued in insertion order', () => {
+        let queue = new PriorityQueue<number>([], 4, { stable: true });
+        for(let i = 0; i < cycles; i++) {
+            queue.enqueue(i, i % 7);
+        }
+        let res = drain(queue);
+        let expected = Array.from({ length: cycles }, (v, i) => i)
+            .sort((a, b) => (a % 7) - (b % 7) || a - b);
+        expect(arrayEquals(expected, res)).toBe(true);
+    });
+
+    test('range constructor and shrink keep insertion order', () => {
+        let preq: Array<Pair> = [];
+        for(let i = 0; i < cycles; i++) {
+            preq.push(new Pair(i, i % 3));
+        }
+        let queue = new PriorityQueue<number>(preq, 4, { stable: true });
+        for(let i = 0; i < cycles / 2; i++) {
+            queue.dequeue();
+        }
+        queue.shrink();
+        queue.enqueue(-1, 2);
+        let res = drain(queue);
+        let expected = Array.from({ length: cycles }, (v, i) => i)
+            .sort((a, b) => (a % 3) - (b % 3) || a - b)
+            .slice(cycles / 2)
+            .concat([-1]);
+        expect(arrayEquals(expected, res)).toBe(true);
+    });
+
+    test('enqueueDequeue returns earlier element on tie', () => {
+        let queue = new PriorityQueue<string>([], 4, { stable: true });
+        queue.enqueue('first', 1);
+        expect(queue.enqueueDequeue('second', 1)).toEqual('first');
+        expect(queue.peek()).toEqual('second');
+    });
+
+    test('clear keeps ordering guarantee', () => {
+        let queue = new PriorityQueue<number>([], 2, { stable: true });
+        for(let i = 0; i < 100; i++) {
+            queue.enqueue(i, 0);
+        }
+        queue.clear();
+        for(let i = 0; i < 100; i++) {
+            queue.enqueue(i, 0);
+        }
+        expect(drain(queue)).toEqual(Array.from({ length: 100 }, (v, i) => i));
+    });
+});
+
+describe('capacity management', () => {
+    test('buffers grow by growth factor and ensureCapacity', () => {
+        let queue = new PriorityQueue<number>([], 4, { initialCapacity: 10, growthFactor: 1.5 });
+        expect(queue.capacity).toEqual(10);
+        for(let i = 0; i < 11; i++) {
+            queue.enqueue(i, i);
+        }
+        expect(queue.capacity).toEqual(15);
+        expect(queue.ensureCapacity(100)).toEqual(100);
+        expect(queue.ensureCapacity(10)).toEqual(100);
+        expect(queue.dequeue()).toEqual(0);
+    });
+
+    test('trimExcess frees buffers like in .NET', () => {
+        let queue = prepareQueue();
+        let ar = queue.unorderedItems.sort(function(a, b){return a-b});
+        queue.trimExcess();
+        expect(queue.capacity).toEqual(queue.count);
+        let res: Array<number> = [];
+        while(queue.count != 0) {
+            res.push(queue.dequeue());
+        }
+        expect(arrayEquals(ar, res)).toEqual(true);
+        queue = new PriorityQueue<number>([], 4, { initialCapacity: 10 });
+        for(let i = 0; i < 9; i++) {
+            queue.enqueue(i, i);
+        }
+        queue.trimExcess();
+        expect(queue.capacity).toEqual(10);
+    });
+
+    test('clear keeps capacity', () => {
+        let queue = prepareQueue();
+        let capacity = queue.capacity;
+        queue.clear();
+        expect(queue.capacity).toEqual(capacity);
+        expect(queue.count).toEqual(0);
+    });
+
+    test('shrink compacts slots and keeps valid handles of unmoved elements', () => {
+        let queue = new PriorityQueue<number>();
+        let handles = [];
+        for(let i = 0; i < 100; i++) {
+            handles.push(queue.enqueue(i, i));
+        }
+        for(let i = 0; i < 50; i++) {
+            queue.dequeue();
+        }
+        queue.shrink();
+        expect(queue.unorderedItems.sort(function(a, b){return a-b})).toEqual(Array.from({ length: 50 }, (v, i) => i + 50));
+        handles.forEach(handle => {
+            if(queue.contains(handle))
+                queue.updatePriority(handle, -1);
+        });
+        expect(queue.count).toEqual(50);
+    });
+});
+
+describe('iteration and views', () => {
+    test('iterating unordered pairs', () => {
+        let queue = prepareQueue();
+        let pairs = Array.from(queue);
+        expect(pairs.length).toEqual(queue.count);
+        pairs.forEach(pair => expect(pair.element).toEqual(pair.priority));
+        expect(queue.unorderedEntries.map(pair => pair.element).sort(function(a, b){return a-b}))
+            .toEqual(queue.unorderedItems.sort(function(a, b){return a-b}));
+    });
+
+    test('drain dequeues lazily in priority order', () => {
+        let queue = prepareQueue();
+        let ar = queue.unorderedItems.sort(function(a, b){return a-b});
+        let res: Array<number> = [];
+        for(let elem of queue.drain()) {
+            res.push(elem);
+            if(res.length == 100)
+                break;
+        }
+        expect(queue.count).toEqual(ar.length - 100);
+        res = res.concat(Array.from(queue.drain()));
+        expect(queue.count).toEqual(0);
+        expect(arrayEquals(ar, res)).toBe(true);
+    });
+
+    test('ordered items does not change the queue', () => {
+        let queue = prepareQueue();
+        let ar = queue.unorderedItems.sort(function(a, b){return a-b});
+        let count = queue.count;
+        expect(arrayEquals(ar, Array.from(queue.orderedItems()))).toBe(true);
+        expect(queue.count).toEqual(count);
+        expect(arrayEquals(ar, Array.from(queue.drain()))).toBe(true);
+    });
+
+    test('ordered items respects stable mode', () => {
+        let queue = new PriorityQueue<number>([], 3, { stable: true });
+        for(let i = 0; i < 100; i++) {
+            queue.enqueue(i, i % 4);
+        }
+        let expected = Array.from({ length: 100 }, (v, i) => i).sort((a, b) => (a % 4) - (b % 4) || a - b);
+        expect(Array.from(queue.orderedItems())).toEqual(expected);
+    });
+});
+
+describe('serialization', () => {
+    test('JSON snapshot restores heap layout', () => {
+        let queue = prepareQueue();
+        let restored = PriorityQueue.fromJSON<number>(JSON.stringify(queue));
+        expect(Array.from(restored)).toEqual(Array.from(queue));
+        expect(arrayEquals(Array.from(queue.drain()), Array.from(restored.drain()))).toBe(true);
+    });
+
+    test('JSON snapshot keeps stable ordering and revives priorities', () => {
+        let queue = new PriorityQueue<string, Date>([], 4, { comparer: defaultComparer, stable: true });
+        queue.enqueue('b', new Date(2020, 0, 1));
+        queue.enqueue('a', new Date(2010, 0, 1));
+        queue.enqueue('c', new Date(2020, 0, 1));
+        let restored = PriorityQueue.fromJSON<string, Date>(JSON.stringify(queue),
+            (key, value) => key == 'priority' ? new Date(value as string) : value, { comparer: defaultComparer });
+        restored.enqueue('d', new Date(2020, 0, 1));
+        expect(Array.from(restored.drain())).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    test('binary snapshot restores heap layout', () => {
+        let queue = new PriorityQueue<string>([], 8, { stable: true });
+        for(let i = 0; i < 1000; i++) {
+            queue.enqueue('elem' + i, i % 10);
+        }
+        let restored = PriorityQueue.deserialize<string>(queue.serialize());
+        expect(Array.from(restored)).toEqual(Array.from(queue));
+        restored.enqueue('last', 0);
+        queue.enqueue('last', 0);
+        expect(Array.from(restored.drain())).toEqual(Array.from(queue.drain()));
+    });
+
+    test('binary snapshot with custom codec', () => {
+        let codec = {
+            encode: (elem: number) => new Uint8Array(new Float64Array([elem]).buffer),
+            decode: (bytes: Uint8Array) => new Float64Array(bytes.slice().buffer)[0]
+        };
+        let queue = prepareQueue();
+        let restored = PriorityQueue.deserialize<number>(queue.serialize(codec), codec);
+        expect(arrayEquals(Array.from(queue.drain()), Array.from(restored.drain()))).toBe(true);
+    });
+
+    test('corrupt or version-mismatched input throws dedicated exception', () => {
+        let queue = prepareQueue();
+        let bytes = queue.serialize();
+        expect(() => PriorityQueue.deserialize(bytes.subarray(0, bytes.length - 1))).toThrow(SerializationException);
+        let version = bytes.slice();
+        version[4] = 2;
+        expect(() => PriorityQueue.deserialize(version)).toThrow(SerializationException);
+        let json = queue.toJSON();
+        expect(() => PriorityQueue.fromJSON({ ...json, version: 2 })).toThrow(SerializationException);
+        expect(() => PriorityQueue.fromJSON('{')).toThrow(SerializationException);
+        let broken = { ...json, entries: json.entries.slice().reverse() };
+        expect(() => PriorityQueue.fromJSON(broken)).toThrow(SerializationException);
+        expect(() => PriorityQueue.fromJSON({ ...json, sequence: NaN })).toThrow(SerializationException);
+        expect(() => PriorityQueue.fromJSON({ ...json, sequence: json.sequence + 0.5 })).toThrow(SerializationException);
+        let sequence = bytes.slice();
+        new DataView(sequence.buffer).setFloat64(16, NaN, true);
+        expect(() => PriorityQueue.deserialize(sequence)).toThrow(SerializationException);
+        let tuples = new PriorityQueue<number, [number]>([], 4, (x, y) => x[0] - y[0]);
+        tuples.enqueue(1, [1]);
+        expect(() => tuples.serialize()).toThrow(SerializationException);
+    });
+});
+
+describe('merge', () => {
+    test('merge keeps priorities and source by default', () => {
+        let queue = new PriorityQueue<string>([{ element: 'b', priority: 2 }, { element: 'e', priority: 5 }]);
+        let other = new PriorityQueue<string>([{ element: 'a', priority: 1 }, { element: 'd', priority: 4 }, { element: 'c', priority: 3 }], 8);
+        queue.merge(other);
+        expect(queue.count).toEqual(5);
+        expect(other.count).toEqual(3);
+        expect(Array.from(queue.drain())).toEqual(['a', 'b', 'c', 'd', 'e']);
+        expect(other.dequeue()).toEqual('a');
+    });
+
+    test('merge with consume leaves source empty', () => {
+        let queue = prepareQueue();
+        let other = prepareQueue();
+        let expected = [...queue.unorderedItems, ...other.unorderedItems].sort((a, b) => a - b);
+        queue.merge(other, true);
+        expect(other.count).toEqual(0);
+        expect(Array.from(queue.drain())).toEqual(expected);
+        other.enqueue(1, 1);
+        expect(other.dequeue()).toEqual(1);
+    });
+
+    test('few merged elements into big queue', () => {
+        let queue = new PriorityQueue<number>();
+        for(let i = 100; i > 0; i--)
+            queue.enqueue(i, i);
+        queue.dequeue();
+        queue.merge(new PriorityQueue<number>([{ element: 0, priority: 0 }, { element: 50.5, priority: 50.5 }]));
+        let result = Array.from(queue.drain());
+        expect(result[0]).toEqual(0);
+        expect(result.length).toEqual(101);
+        expect(result.every((value, i) => i == 0 || result[i - 1] <= value)).toBe(true);
+    });
+
+    test('stable mode orders merged elements after own ones', () => {
+        let queue = new PriorityQueue<string>([], 4, { stable: true });
+        let other = new PriorityQueue<string>([], 2, { stable: true });
+        other.enqueue('x1', 1);
+        other.enqueue('x2', 1);
+        queue.enqueue('a1', 1);
+        queue.enqueue('a2', 1);
+        queue.merge(other);
+        queue.enqueue('a3', 1);
+        expect(Array.from(queue.drain())).toEqual(['a1', 'a2', 'x1', 'x2', 'a3']);
+    });
+
+    test('static merge creates new queue', () => {
+        let comparer = reverseComparer<string>(defaultComparer);
+        let first = new PriorityQueue<string, string>([{ element: 'b', priority: 'b' }], 4, comparer);
+        let second = new PriorityQueue<string, string>([{ element: 'c', priority: 'c' }, { element: 'a', priority: 'a' }], 4, comparer);
+        let merged = PriorityQueue.merge(first, second);
+        expect(first.count).toEqual(1);
+        expect(second.count).toEqual(2);
+        expect(Array.from(merged.drain())).toEqual(['c', 'b', 'a']);
+        expect(PriorityQueue.merge().count).toEqual(0);
+    });
+
+    test('merge of incompatible queues throws', () => {
+        let queue = new PriorityQueue<number>();
+        expect(() => queue.merge(queue)).toThrow(InvalidOperationException);
+        expect(() => queue.merge(new PriorityQueue<number>([], 4, defaultComparer))).toThrow(InvalidOperationException);
+    });
+});
+
+describe('validation and errors', () => {
+    test('exceptions are real errors', () => {
+        let queue = new PriorityQueue<number>();
+        try {
+            queue.dequeue();
+            fail('dequeue of empty queue must throw');
+        } catch(e) {
+            expect(e).toBeInstanceOf(Error);
+            expect(e).toBeInstanceOf(PriorityQueueException);
+            expect(e).toBeInstanceOf(InvalidOperationException);
+            expect((e as Error).name).toEqual('InvalidOperationException');
+            expect((e as Error).stack).toBeDefined();
+        }
+        expect(new SerializationException('x')).toBeInstanceOf(PriorityQueueException);
+        expect(new ArgumentException('x')).toBeInstanceOf(Error);
+    });
+
+    test('enqueueDequeue on empty queue throws', () => {
+        let queue = new PriorityQueue<number>();
+        expect(() => queue.enqueueDequeue(1, 1)).toThrow(InvalidOperationException);
+        expect(() => queue.dequeueEnqueue(1, 1)).toThrow(InvalidOperationException);
+    });
+
+    test('strict mode rejects non-finite priorities', () => {
+        let queue = new PriorityQueue<number>([], 4, { strict: true });
+        expect(() => queue.enqueue(1, NaN)).toThrow(ArgumentException);
+        expect(() => queue.enqueue(1, Infinity)).toThrow(ArgumentException);
+        expect(() => queue.enqueue(1, undefined as unknown as number)).toThrow(ArgumentException);
+        let handle = queue.enqueue(1, 1);
+        expect(() => queue.updatePriority(handle, NaN)).toThrow(ArgumentException);
+        expect(() => queue.enqueueDequeue(2, -Infinity)).toThrow(ArgumentException);
+        expect(() => queue.enqueueRange([{ element: 2, priority: 2 }, { element: 3, priority: NaN }])).toThrow(ArgumentException);
+        expect(queue.count).toEqual(1);
+        expect(() => new PriorityQueue<number>([{ element: 1, priority: NaN }], 4, { strict: true })).toThrow(ArgumentException);
+        let dates = new PriorityQueue<string, Date | null>([], 4, { strict: true, comparer: (a, b) => (a as Date).getTime() - (b as Date).getTime() });
+        dates.enqueue('now', new Date());
+        expect(() => dates.enqueue('never', null)).toThrow(ArgumentException);
+        queue.validate();
+    });
+
+    test('validate checks heap property and bookkeeping', () => {
+        let queue = prepareQueue();
+        for(let i = 0; i < 100; i++)
+            queue.dequeue();
+        queue.validate();
+        queue.shrink();
+        queue.validate();
+        queue.enqueue(-1, NaN);
+        expect(() => queue.validate()).toThrow(InvalidOperationException);
+
+        queue = new PriorityQueue<number>([{ element: 1, priority: 1 }, { element: 2, priority: 2 }]);
+        queue['_heap'][1] = 0;
+        expect(() => queue.validate()).toThrow('Heap property is broken at node 1.');
+
+        queue = new PriorityQueue<number>([{ element: 1, priority: 1 }, { element: 2, priority: 2 }]);
+        queue.dequeue();
+        queue['_exited_indexes_count'] = 0;
+        expect(() => queue.validate()).toThrow(InvalidOperationException);
+    });
+});
+
+describe('metrics and listeners', () => {
+    test('stats count operations', () => {
+        let queue = new PriorityQueue<number>([{ element: 5, priority: 5 }], 2, { metrics: true });
+        for(let i = 0; i < 10; i++)
+            queue.enqueue(i, 10 - i);
+        expect(queue.getStats().comparisons).toBeGreaterThan(0);
+        expect(queue.getStats().swaps).toBeGreaterThan(0);
+        queue.dequeue();
+        let handle = queue.enqueue(100, 100);
+        queue.remove(handle);
+        queue.dequeueEnqueue(-1, -1);
+        let stats = queue.getStats();
+        expect(stats.enqueues).toEqual(13);
+        expect(stats.dequeues).toEqual(3);
+        expect(stats.peakSize).toEqual(11);
+        expect(stats.wastedSlots).toEqual(1);
+        queue.shrink();
+        queue.trimExcess();
+        stats = queue.getStats();
+        expect(stats.shrinks).toEqual(2);
+        expect(stats.wastedSlots).toEqual(0);
+        queue.resetStats();
+        expect(queue.getStats()).toEqual({ enqueues: 0, dequeues: 0, comparisons: 0, swaps: 0, peakSize: 10, wastedSlots: 0, shrinks: 0 });
+        queue.validate();
+    });
+
+    test('comparisons are counted only by instrumented queue', () => {
+        let comparisons = 0;
+        let comparer = (a: number, b: number) => { comparisons++; return a - b; };
+        let queue = new PriorityQueue<number>([], 4, { comparer, metrics: true });
+        let plain = new PriorityQueue<number>([], 4, comparer);
+        for(let i = 0; i < 50; i++)
+            queue.enqueue(i, (i * 7) % 13);
+        queue.dequeue();
+        expect(queue.getStats().comparisons).toEqual(comparisons);
+        for(let i = 0; i < 50; i++)
+            plain.enqueue(i, (i * 7) % 13);
+        expect(queue.getStats().comparisons).toBeLessThan(comparisons);
+        expect(() => plain.getStats()).toThrow(InvalidOperationException);
+        expect(() => plain.resetStats()).toThrow(InvalidOperationException);
+    });
+
+    test('listeners trace activity and can be removed', () => {
+        let queue = new PriorityQueue<string>();
+        let log: Array<string> = [];
+        let offEnqueue = queue.onEnqueue((element, priority) => log.push(`+${element}:${priority}`));
+        queue.onDequeue((element, priority) => log.push(`-${element}:${priority}`));
+        queue.onClear(() => log.push('clear'));
+        queue.enqueue('a', 2);
+        queue.enqueue('b', 1);
+        queue.enqueueDequeue('c', 0);
+        queue.enqueueDequeue('d', 3);
+        queue.dequeue();
+        offEnqueue();
+        queue.enqueue('e', 5);
+        queue.clear();
+        expect(log).toEqual(['+a:2', '+b:1', '-b:1', '+d:3', '-a:2', 'clear']);
+    });
+});
+
+describe('bulk operations', () => {
+    test('enqueueRange bulk path adds all elements', () => {
+        let queue = new PriorityQueue<number>();
+        let handles = queue.enqueueRange([5, 3, 8, 1, 9, 2].map(value => ({ element: value, priority: value })));
+        expect(queue.count).toEqual(6);
+        queue.validate();
+        expect(queue.contains(handles[3])).toBe(true);
+        queue.enqueueRange([7, 0, 4, 6].map(value => ({ element: value, priority: value })));
+        queue.validate();
+        expect(Array.from(queue.drain())).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    });
+
+    test('dequeueMany and peekMany return elements in order', () => {
+        let queue = prepareQueue();
+        let sorted = queue.unorderedItems.sort((a, b) => a - b);
+        let count = queue.count;
+        expect(queue.peekMany(10)).toEqual(sorted.slice(0, 10));
+        expect(queue.peekMany(0)).toEqual([]);
+        expect(queue.count).toEqual(count);
+        expect(queue.dequeueMany(10)).toEqual(sorted.slice(0, 10));
+        expect(queue.count).toEqual(count - 10);
+        expect(queue.dequeueMany(count)).toEqual(sorted.slice(10));
+        expect(queue.dequeueMany(5)).toEqual([]);
+    });
+
+    test('removeWhere rebuilds heap and keeps handles', () => {
+        let queue = new PriorityQueue<number>([], 4, { stable: true });
+        let handles = [];
+        for(let i = 0; i < 200; i++)
+            handles.push(queue.enqueue(i, i % 17));
+        let removed: Array<number> = [];
+        queue.onDequeue(element => removed.push(element));
+        expect(queue.removeWhere(element => element % 3 == 0)).toEqual(67);
+        expect(removed.length).toEqual(67);
+        expect(queue.count).toEqual(133);
+        queue.validate();
+        expect(queue.contains(handles[0])).toBe(false);
+        expect(queue.contains(handles[1])).toBe(true);
+        queue.updatePriority(handles[1], -1);
+        expect(queue.dequeue()).toEqual(1);
+        expect(queue.removeWhere(() => false)).toEqual(0);
+        expect(() => queue.removeWhere(() => { throw new Error('fail'); })).toThrow('fail');
+        expect(queue.count).toEqual(132);
+        let result = Array.from(queue.drain());
+        expect(result.every(value => value % 3 != 0)).toBe(true);
+        expect(result.every((value, i) => i == 0 || result[i - 1] % 17 < value % 17 || result[i - 1] % 17 == value % 17 && result[i - 1] < value)).toBe(true);
+    });
+
+    test('map and filter create new queues', () => {
+        let queue = new PriorityQueue<number>([], 4, { stable: true });
+        for(let i = 0; i < 20; i++)
+            queue.enqueue(i, i % 5);
+        let labels = queue.map((element, priority) => `${element}@${priority}`);
+        expect(labels.count).toEqual(20);
+        expect(labels.peek()).toEqual('0@0');
+        labels.validate();
+        let odd = queue.filter(element => element % 2 == 1);
+        odd.validate();
+        expect(Array.from(odd.drain())).toEqual([5, 15, 1, 11, 7, 17, 3, 13, 9, 19]);
+        expect(queue.count).toEqual(20);
+        expect(queue.filter(() => false).count).toEqual(0);
+    });
+});
+
+describe('clone', () => {
+    test('clone is independent copy', () => {
+        let queue = new PriorityQueue<number>([], 4, { stable: true });
+        let handles = [];
+        for(let i = 0; i < 50; i++)
+            handles.push(queue.enqueue(i, i % 5));
+        queue.remove(handles[0]);
+        queue.dequeue();
+        let copy = queue.clone();
+        copy.validate();
+        expect(copy.count).toEqual(48);
+        expect(queue.contains(handles[10])).toBe(true);
+        expect(copy.contains(handles[10])).toBe(false);
+        copy.enqueue(-1, -1);
+        expect(copy.peek()).toEqual(-1);
+        expect(queue.peek()).toEqual(10);
+        queue.enqueue(100, -5);
+        expect(copy.count).toEqual(49);
+        copy.dequeue();
+        let expected = Array.from(queue.drain()).filter(value => value != 100);
+        expect(Array.from(copy.drain())).toEqual(expected);
+    });
+
+    test('clone keeps options', () => {
+        let queue = new PriorityQueue<string, string>([], 2, { comparer: (x, y) => x.localeCompare(y) });
+        queue.enqueue('b', 'b');
+        queue.enqueue('a', 'a');
+        let copy = queue.clone();
+        copy.enqueue('c', 'c');
+        expect(Array.from(copy.drain())).toEqual(['a', 'b', 'c']);
+        expect(queue.count).toEqual(2);
+    });
+});
+
+describe('checkpoints', () => {
+    function snapshot(queue: PriorityQueue<number, any>): string {
+        return JSON.stringify(queue.unorderedEntries.sort((a, b) => a.element - b.element));
+    }
+
+    test('rollback restores queue and handles', () => {
+        let queue = new PriorityQueue<number>([], 4, { stable: true });
+        let handles = [];
+        for(let i = 0; i < 100; i++)
+            handles.push(queue.enqueue(i, i % 7));
+        for(let i = 0; i < 30; i++)
+            queue.dequeue();
+        let before = snapshot(queue);
+        let checkpoint = queue.checkpoint();
+        let added = queue.enqueue(1000, -1);
+        queue.dequeueMany(50);
+        queue.updatePriority(handles[97], -5);
+        queue.removeWhere(value => value % 2 == 0);
+        queue.enqueueRange(Array.from({ length: 200 }, (_, i) => ({ element: 2000 + i, priority: i % 3 })));
+        queue.enqueueDequeue(3000, 10);
+        queue.dequeueEnqueue(3001, 0);
+        queue.clear();
+        queue.enqueue(4000, 4);
+        queue.rollback(checkpoint);
+        queue.validate();
+        expect(snapshot(queue)).toEqual(before);
+        expect(queue.contains(added)).toBe(false);
+        expect(queue.contains(handles[97])).toBe(true);
+        expect(queue.contains(handles[0])).toBe(false);
+        queue.updatePriority(handles[97], -1);
+        expect(queue.dequeue()).toEqual(97);
+        let expected = Array.from({ length: 100 }, (_, i) => i).sort((a, b) => a % 7 - b % 7 || a - b).slice(30).filter(value => value != 97);
+        expect(Array.from(queue.drain())).toEqual(expected);
+        expect(() => queue.rollback(checkpoint)).toThrow(InvalidOperationException);
+    });
+
+    test('rollback of dequeue, remove and removeWhere restores positions of moved nodes', () => {
+        let priorities = [5, 1, 3, 8, 9, 2, 7];
+        let prepare = () => {
+            let queue = new PriorityQueue<string>([], 2);
+            let handles = priorities.map((p, i) => queue.enqueue('e' + i, p));
+            return { queue, handles };
+        };
+        let operations: Array<(queue: PriorityQueue<string>, handles: Array<QueueHandle>) => void> = [
+            queue => queue.dequeue(),
+            (queue, handles) => queue.remove(handles[2]),
+            queue => queue.removeWhere(value => value == 'e1' || value == 'e3')
+        ];
+        operations.forEach(operation => {
+            let { queue, handles } = prepare();
+            let checkpoint = queue.checkpoint();
+            operation(queue, handles);
+            queue.rollback(checkpoint);
+            queue.validate();
+            expect(queue.remove(handles[6])).toEqual('e6');
+            expect(queue.remove(handles[2])).toEqual('e2');
+            queue.validate();
+            expect(Array.from(queue.drain())).toEqual(['e1', 'e5', 'e0', 'e3', 'e4']);
+        });
+    });
+
+    test('nested checkpoints with random operations', () => {
+        let queue = new PriorityQueue<number, number>([], 3, { comparer: (x, y) => x - y, initialCapacity: 4 });
+        let seed = 7;
+        let random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+        let handles: Array<any> = [];
+        let next = 0;
+        let mutate = (steps: number) => {
+            for(let i = 0; i < steps; i++) {
+                let r = random();
+                if(r < 0.5 || queue.count == 0)
+                    handles.push(queue.enqueue(next++, Math.floor(random() * 50)));
+                else if(r < 0.75)
+                    queue.dequeue();
+                else if(r < 0.9) {
+                    let handle = handles[Math.floor(random() * handles.length)];
+                    if(queue.contains(handle))
+                        queue.remove(handle);
+                } else {
+                    let handle = handles[Math.floor(random() * handles.length)];
+                    if(queue.contains(handle))
+                        queue.updatePriority(handle, Math.floor(random() * 50));
+                }
+            }
+        };
+        mutate(100);
+        let outer_state = snapshot(queue);
+        let outer: QueueCheckpoint = queue.checkpoint();
+        mutate(100);
+        let inner_state = snapshot(queue);
+        let inner = queue.checkpoint();
+        mutate(300);
+        queue.rollback(inner);
+        queue.validate();
+        expect(snapshot(queue)).toEqual(inner_state);
+        inner = queue.checkpoint();
+        mutate(50);
+        queue.commit(inner);
+        expect(() => queue.commit(inner)).toThrow(InvalidOperationException);
+        mutate(50);
+        queue.checkpoint();
+        mutate(20);
+        queue.rollback(outer);
+        queue.validate();
+        expect(snapshot(queue)).toEqual(outer_state);
+        let committed = queue.checkpoint();
+        mutate(100);
+        let state = snapshot(queue);
+        queue.commit(committed);
+        queue.validate();
+        expect(snapshot(queue)).toEqual(state);
+        queue.shrink();
+        queue.validate();
+    });
+
+    test('merge and forbidden operations', () => {
+        let queue = new PriorityQueue<number>([{ element: 1, priority: 1 }, { element: 2, priority: 2 }]);
+        let other = new PriorityQueue<number>([{ element: 3, priority: 0 }]);
+        let checkpoint = queue.checkpoint();
+        expect(() => queue.shrink()).toThrow(InvalidOperationException);
+        expect(() => queue.trimExcess()).toThrow(InvalidOperationException);
+        queue.merge(other, true);
+        expect(queue.peek()).toEqual(3);
+        queue.rollback(checkpoint);
+        expect(queue.count).toEqual(2);
+        expect(queue.peek()).toEqual(1);
+        expect(other.count).toEqual(0);
+        expect(() => new PriorityQueue<number>().commit(queue.checkpoint())).toThrow(InvalidOperationException);
+    });
+});
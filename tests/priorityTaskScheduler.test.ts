@@ -0,0 +1,112 @@
+import { ArgumentException, PriorityTaskScheduler, TaskCanceledException, TimeoutException } from '../src/index';
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('priority task scheduler', () => {
+    test('pending tasks start in priority order', async () => {
+        let scheduler = new PriorityTaskScheduler(4, { paused: true });
+        let order: Array<string> = [];
+        let tasks = [
+            scheduler.schedule(async () => { order.push('low'); }, 10),
+            scheduler.schedule(async () => { order.push('high'); }, 1),
+            scheduler.schedule(async () => { order.push('mid-a'); }, 5),
+            scheduler.schedule(async () => { order.push('mid-b'); }, 5)
+        ];
+        expect(scheduler.pending).toEqual(4);
+        scheduler.resume();
+        await Promise.all(tasks);
+        expect(order).toEqual(['high', 'mid-a', 'mid-b', 'low']);
+    });
+
+    test('concurrency limits running tasks', async () => {
+        let scheduler = new PriorityTaskScheduler(4, { concurrency: 2 });
+        let active = 0;
+        let peak = 0;
+        let task = async () => {
+            active++;
+            peak = Math.max(peak, active);
+            await delay(5);
+            active--;
+            return active;
+        };
+        for(let i = 0; i < 6; i++)
+            scheduler.schedule(task, i);
+        expect(scheduler.running).toEqual(2);
+        expect(scheduler.pending).toEqual(4);
+        await scheduler.onIdle();
+        expect(peak).toEqual(2);
+        expect(scheduler.running).toEqual(0);
+    });
+
+    test('invalid concurrency must throw exception', () => {
+        expect(() => new PriorityTaskScheduler(4, { concurrency: 0 })).toThrow(ArgumentException);
+        expect(() => new PriorityTaskScheduler(4, { concurrency: NaN })).toThrow(ArgumentException);
+    });
+
+    test('invalid priority rejects task without listening to its signal', async () => {
+        let scheduler = new PriorityTaskScheduler(4, { strict: true });
+        let controller = new AbortController();
+        let listen = jest.spyOn(controller.signal, 'addEventListener');
+        await expect(scheduler.schedule(async () => 1, NaN, { signal: controller.signal })).rejects.toBeInstanceOf(ArgumentException);
+        expect(listen).not.toHaveBeenCalled();
+        expect(scheduler.pending).toEqual(0);
+    });
+
+    test('results and errors are passed through', async () => {
+        let scheduler = new PriorityTaskScheduler();
+        await expect(scheduler.schedule(async () => 42, 0)).resolves.toEqual(42);
+        await expect(scheduler.schedule(() => { throw new Error('fail'); }, 0)).rejects.toThrow('fail');
+    });
+
+    test('abort removes pending task', async () => {
+        let scheduler = new PriorityTaskScheduler(4, { paused: true });
+        let controller = new AbortController();
+        let started = false;
+        let pending = scheduler.schedule(async () => { started = true; }, 1, { signal: controller.signal });
+        controller.abort();
+        await expect(pending).rejects.toBeInstanceOf(TaskCanceledException);
+        expect(scheduler.pending).toEqual(0);
+        scheduler.resume();
+        await scheduler.onIdle();
+        expect(started).toBe(false);
+    });
+
+    test('abort of running task aborts its signal', async () => {
+        let scheduler = new PriorityTaskScheduler();
+        let controller = new AbortController();
+        let aborted = false;
+        let running = scheduler.schedule(signal => new Promise<void>(resolve => {
+            signal.addEventListener('abort', () => { aborted = true; resolve(); });
+        }), 1, { signal: controller.signal });
+        controller.abort();
+        await expect(running).rejects.toBeInstanceOf(TaskCanceledException);
+        expect(aborted).toBe(true);
+        await scheduler.onIdle();
+    });
+
+    test('timeout rejects task counted from its start', async () => {
+        let scheduler = new PriorityTaskScheduler();
+        let first = scheduler.schedule(() => delay(20), 0);
+        let second = scheduler.schedule(signal => new Promise<void>(resolve => {
+            signal.addEventListener('abort', () => resolve());
+        }), 1, { timeout: 10 });
+        await first;
+        expect(scheduler.running).toEqual(1);
+        await expect(second).rejects.toBeInstanceOf(TimeoutException);
+        await scheduler.onIdle();
+    });
+
+    test('clear cancels pending tasks and onEmpty resolves', async () => {
+        let scheduler = new PriorityTaskScheduler();
+        let running = scheduler.schedule(() => delay(5), 0);
+        let pending = scheduler.schedule(async () => 1, 1);
+        let empty = scheduler.onEmpty();
+        scheduler.clear();
+        await empty;
+        await expect(pending).rejects.toBeInstanceOf(TaskCanceledException);
+        await running;
+        expect(scheduler.running).toEqual(0);
+    });
+});
@@ -0,0 +1,85 @@
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { SharedPriorityQueue, ArgumentException, InvalidOperationException, TimeoutException } from '../src/index';
+
+/**
+ * Runs worker that attaches to the queue, source is transpiled on the fly.
+ */
+function runWorker(body: string, buffer: SharedArrayBuffer): Promise<any> {
+    let source = `
+        const ts = require('typescript');
+        const fs = require('fs');
+        const { parentPort, workerData } = require('worker_threads');
+        require.extensions['.ts'] = (module, filename) => module._compile(ts.transpileModule(fs.readFileSync(filename, 'utf8'),
+            { compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2018 } }).outputText, filename);
+        const { SharedPriorityQueue } = require(${JSON.stringify(path.join(__dirname, '../src/SharedPriorityQueue.ts'))});
+        const queue = SharedPriorityQueue.fromBuffer(workerData);
+        parentPort.postMessage((() => { ${body} })());
+    `;
+    return new Promise((resolve, reject) => {
+        let worker = new Worker(source, { eval: true, workerData: buffer });
+        worker.once('message', resolve);
+        worker.once('error', reject);
+    });
+}
+
+describe('shared priority queue', () => {
+    test('numeric ids', () => {
+        let queue = new SharedPriorityQueue(100);
+        for(let i = 0; i < 100; i++)
+            queue.enqueue(i, (i * 37) % 100);
+        expect(queue.count).toEqual(100);
+        expect(() => queue.enqueue(0, 0)).toThrow(InvalidOperationException);
+        let result: Array<number> = [];
+        for(let value = queue.tryDequeue(); value !== undefined; value = queue.tryDequeue())
+            result.push((value * 37) % 100);
+        expect(result).toEqual(Array.from({ length: 100 }, (_, i) => i));
+        expect(queue.count).toEqual(0);
+        queue.enqueue(7, 1);
+        expect(queue.dequeue(0)).toEqual(7);
+    });
+
+    test('fixed-size records', () => {
+        let queue = new SharedPriorityQueue<Float64Array>(8, { recordSize: 3, k: 2 });
+        queue.enqueue(Float64Array.of(1, 2, 3), 5);
+        queue.enqueue(Float64Array.of(4, 5, 6), 1);
+        expect(() => queue.enqueue(Float64Array.of(1, 2), 0)).toThrow(ArgumentException);
+        expect(() => queue.enqueue(Float64Array.of(1, 2, 3), NaN)).toThrow(ArgumentException);
+        let attached = SharedPriorityQueue.fromBuffer<Float64Array>(queue.buffer);
+        expect(attached.recordSize).toEqual(3);
+        expect(attached.capacity).toEqual(8);
+        expect(Array.from(attached.tryDequeue() as Float64Array)).toEqual([4, 5, 6]);
+        expect(Array.from(queue.dequeue() as Float64Array)).toEqual([1, 2, 3]);
+        expect(() => new SharedPriorityQueue(0)).toThrow(ArgumentException);
+        expect(() => SharedPriorityQueue.fromBuffer(new SharedArrayBuffer(64))).toThrow(ArgumentException);
+    });
+
+    test('blocking dequeue times out', () => {
+        let queue = new SharedPriorityQueue(4);
+        let start = Date.now();
+        expect(() => queue.dequeue(20)).toThrow(TimeoutException);
+        expect(Date.now() - start).toBeGreaterThanOrEqual(19);
+    });
+
+    test('several workers at once', async () => {
+        let queue = new SharedPriorityQueue(2000);
+        let consumer = runWorker(`
+            let result = [];
+            for(let i = 0; i < 1000; i++)
+                result.push(queue.dequeue(20000));
+            return result;
+        `, queue.buffer);
+        let producers = [0, 1].map(part => runWorker(`
+            for(let i = ${part}; i < 2000; i += 2)
+                queue.enqueue(i, i);
+            return true;
+        `, queue.buffer));
+        await Promise.all(producers);
+        let consumed: Array<number> = await consumer;
+        let rest: Array<number> = [];
+        for(let value = queue.tryDequeue(); value !== undefined; value = queue.tryDequeue())
+            rest.push(value);
+        expect(rest.every((value, i) => i == 0 || rest[i - 1] < value)).toBe(true);
+        expect([...consumed, ...rest].sort((x, y) => x - y)).toEqual(Array.from({ length: 2000 }, (_, i) => i));
+    }, 60000);
+});